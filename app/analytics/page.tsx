@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import type { HistogramBucket, StatsCount, TalentStats } from '@/lib/talent-stats';
+
+const ACTIVITY_DAYS = [7, 30, 90, 365];
+
+// Filters that describe the talents themselves, rather than the list view
+const FILTER_PARAM_LABELS: Record<string, string> = {
+  search: 'Search',
+  role: 'Role',
+  nationality: 'Country',
+  available: 'Available',
+  total_jobs_min: 'Min jobs',
+  total_jobs_max: 'Max jobs',
+  average_rating_min: 'Min rating',
+  average_rating_max: 'Max rating',
+  review_count_min: 'Min reviews',
+  review_count_max: 'Max reviews',
+  superpower: 'Superpower',
+  superpowers_mode: 'Superpowers',
+  profile: 'Profile on',
+  tag: 'Tag',
+  stage: 'Stage',
+  include_stale: 'Include stale',
+};
+
+// Bucket maxima are exclusive, so integer buckets end one below
+const formatBucket = (bucket: HistogramBucket, integer: boolean) => {
+  if (bucket.max === null) return `${bucket.min}+`;
+  if (!integer) return `${bucket.min}–${bucket.max}`;
+  return bucket.max - bucket.min === 1 ? `${bucket.min}` : `${bucket.min}–${bucket.max - 1}`;
+};
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+// Horizontal bars, largest first
+function BarList({ items }: { items: StatsCount[] }) {
+  const max = Math.max(1, ...items.map((item) => item.count));
+  if (items.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No data.</p>;
+  }
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.value} className="flex items-center gap-3 text-sm">
+          <span className="w-36 shrink-0 truncate text-gray-700 dark:text-gray-300" title={item.value}>{item.value}</span>
+          <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded">
+            <div className="h-4 bg-blue-500 rounded" style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+          <span className="w-14 text-right text-gray-600 dark:text-gray-400">{item.count.toLocaleString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Vertical bars, one per bucket
+function Histogram({ buckets, integer = false }: { buckets: HistogramBucket[]; integer?: boolean }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  return (
+    <div className="flex items-end gap-2 h-48">
+      {buckets.map((bucket) => (
+        <div key={bucket.min} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+          <span className="text-xs text-gray-600 dark:text-gray-400">{bucket.count.toLocaleString()}</span>
+          <div
+            className="w-full bg-purple-500 rounded-t"
+            style={{ height: `${(bucket.count / max) * 100}%` }}
+            title={`${formatBucket(bucket, integer)}: ${bucket.count}`}
+          />
+          <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatBucket(bucket, integer)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Talents added and updated per day, as paired bars
+function ActivityChart({ activity }: { activity: TalentStats['activity'] }) {
+  const max = Math.max(1, ...activity.flatMap((day) => [day.added, day.updated]));
+  return (
+    <div>
+      <div className="flex items-end gap-px h-48">
+        {activity.map((day) => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex items-end gap-px"
+            title={`${day.date}: ${day.added} added, ${day.updated} updated`}
+          >
+            <div className="flex-1 bg-green-500 rounded-t" style={{ height: `${(day.added / max) * 100}%` }} />
+            <div className="flex-1 bg-blue-500 rounded-t" style={{ height: `${(day.updated / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{activity[0]?.date}</span>
+        <span className="flex gap-4">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 bg-green-500 rounded-sm" /> Added</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500 rounded-sm" /> Updated</span>
+        </span>
+        <span>{activity[activity.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
+
+function AnalyticsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [stats, setStats] = useState<TalentStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = parseInt(searchParams.get('days') || '') || 30;
+  const activeFilters = Array.from(searchParams.entries()).filter(([key]) => key in FILTER_PARAM_LABELS);
+
+  // Stats for the filters in the URL, as passed on from the talent list
+  useEffect(() => {
+    const fetchStats = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/talent/stats?${searchParams.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load stats');
+          return;
+        }
+        setStats(data.stats);
+      } catch (error) {
+        console.error('Error fetching stats:', error);
+        setError('Failed to load stats');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [searchParams]);
+
+  const setDays = (value: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('days', value.toString());
+    router.replace(`/analytics?${params}`, { scroll: false });
+  };
+
+  const listParams = new URLSearchParams(searchParams.toString());
+  listParams.delete('days');
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <Link href={listParams.size > 0 ? `/?${listParams}` : '/'} className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to talents
+        </Link>
+
+        <div className="mt-6 mb-8">
+          <h1 className="text-4xl font-bold mb-2 text-gray-900 dark:text-white">Analytics</h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            {activeFilters.length === 0 ? (
+              <span>All talents</span>
+            ) : (
+              activeFilters.map(([key, value], index) => (
+                <span key={`${key}-${index}`} className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700">
+                  {FILTER_PARAM_LABELS[key]}: {value}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+
+        {loading && !stats ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error || !stats ? (
+          <div className="text-center py-20">
+            <p className="text-gray-500 dark:text-gray-400 text-lg">{error || 'No stats available'}</p>
+          </div>
+        ) : (
+          <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+            {/* Totals */}
+            <div className="grid gap-6 sm:grid-cols-3">
+              <Panel title="Talents">
+                <p className="text-4xl font-bold text-gray-900 dark:text-white">{stats.total.toLocaleString()}</p>
+              </Panel>
+              <Panel title="Available for work">
+                <p className="text-4xl font-bold text-gray-900 dark:text-white">{Math.round(stats.availability.ratio * 100)}%</p>
+                <div className="mt-3 h-3 bg-gray-200 dark:bg-gray-700 rounded">
+                  <div className="h-3 bg-green-500 rounded" style={{ width: `${stats.availability.ratio * 100}%` }} />
+                </div>
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                  {stats.availability.available.toLocaleString()} available, {stats.availability.unavailable.toLocaleString()} not
+                </p>
+              </Panel>
+              <Panel title="Unrated">
+                <p className="text-4xl font-bold text-gray-900 dark:text-white">{stats.ratings.unrated.toLocaleString()}</p>
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">Talents without an average rating</p>
+              </Panel>
+            </div>
+
+            {/* Freshness */}
+            <Panel title="Added and updated per day">
+              <div className="mb-4 flex gap-2">
+                {ACTIVITY_DAYS.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setDays(value)}
+                    aria-pressed={days === value}
+                    className={`px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 ${days === value
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    {value} days
+                  </button>
+                ))}
+              </div>
+              <ActivityChart activity={stats.activity} />
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                Updated counts each talent once, on the day of its latest change.
+              </p>
+            </Panel>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Panel title="Rating">
+                <Histogram buckets={stats.ratings.buckets} />
+              </Panel>
+              <Panel title="Jobs completed">
+                <Histogram buckets={stats.jobs} integer />
+              </Panel>
+              <Panel title="Roles">
+                <BarList items={stats.roles} />
+              </Panel>
+              <Panel title="Top countries">
+                <BarList items={stats.countries} />
+              </Panel>
+            </div>
+
+            <Panel title="Top superpowers">
+              <BarList items={stats.superpowers} />
+            </Panel>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <AnalyticsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { revokeApiKey, serializeApiKey } from '@/lib/api-keys';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// DELETE endpoint to revoke an API key. The record is kept for auditing.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+    const apiKey = await revokeApiKey(db, id);
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    return NextResponse.json({ apiKey: serializeApiKey(apiKey) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { toValidationIssues } from '@/lib/validation';
+import { apiKeyRequestSchema, createApiKey, listApiKeys, serializeApiKey } from '@/lib/api-keys';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to create an API key. The plaintext key is only returned here.
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = undefined;
+    }
+
+    const parsed = apiKeyRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid API key request.', errors: toValidationIssues(parsed.error, body) },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const { key, apiKey } = await createApiKey(db, parsed.data.name, parsed.data.scopes);
+
+    return NextResponse.json(
+      { key, apiKey: serializeApiKey(apiKey) },
+      {
+        status: 201,
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// GET endpoint to list API keys, including revoked ones
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const db = await getDatabase();
+    const apiKeys = await listApiKeys(db);
+
+    return NextResponse.json({ apiKeys: apiKeys.map(serializeApiKey) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { reconcileTalents } from '@/lib/talent-reconcile';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint for a dry run: reports documents missing talent_id, with
+// mismatched id and talent_id, or duplicated, without changing anything
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const db = await getDatabase();
+    const report = await reconcileTalents(db, { dryRun: true });
+
+    return NextResponse.json({ report }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error checking talents for reconciliation:', error);
+    return NextResponse.json(
+      { error: 'Failed to check talents', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// POST endpoint to apply the fixes the dry run reports
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const db = await getDatabase();
+    const report = await reconcileTalents(db, { dryRun: false });
+
+    return NextResponse.json({ report }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error reconciling talents:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile talents', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { getWebhook, retryWebhookDelivery, serializeWebhookDelivery } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string; deliveryId: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to requeue a dead delivery with a fresh set of attempts
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const { id, deliveryId } = await params;
+    const db = await getDatabase();
+    const webhook = await getWebhook(db, id);
+    if (!webhook || webhook.disabledAt) {
+      return NextResponse.json(
+        { error: webhook ? 'Webhook is disabled' : 'Webhook not found', id },
+        {
+          status: webhook ? 409 : 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const delivery = await retryWebhookDelivery(db, webhook._id, deliveryId);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Dead delivery not found', id: deliveryId },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    return NextResponse.json({ delivery: serializeWebhookDelivery(delivery) }, {
+      status: 202,
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error retrying webhook delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry webhook delivery', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
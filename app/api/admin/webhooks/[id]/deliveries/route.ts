@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { parsePositiveInt } from '@/lib/pagination';
+import { getWebhook, listWebhookDeliveries, serializeWebhookDelivery, WebhookDeliveryStatus } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'delivered', 'dead'];
+const MAX_DELIVERIES = 200;
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint for a webhook's delivery log, newest first, with every attempt.
+// ?status= narrows it, e.g. to `dead` deliveries; ?limit= defaults to 50.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status') || undefined;
+    const limit = parsePositiveInt(searchParams.get('limit'), 50);
+    if ((status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) || limit === null || limit > MAX_DELIVERIES) {
+      return NextResponse.json(
+        { error: `Invalid query. status must be one of ${DELIVERY_STATUSES.join(', ')}; limit at most ${MAX_DELIVERIES}.` },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const webhook = await getWebhook(db, id);
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const deliveries = await listWebhookDeliveries(db, webhook._id, {
+      status: status as WebhookDeliveryStatus | undefined,
+      limit,
+    });
+
+    return NextResponse.json({ deliveries: deliveries.map(serializeWebhookDelivery) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
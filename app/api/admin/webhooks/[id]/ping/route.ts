@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { enqueueWebhookPing, getWebhook, serializeWebhookDelivery } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to queue a `ping` event, to check an endpoint and its signature
+// verification. Follow it in the delivery log.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+    const webhook = await getWebhook(db, id);
+
+    if (!webhook || webhook.disabledAt) {
+      return NextResponse.json(
+        { error: webhook ? 'Webhook is disabled' : 'Webhook not found', id },
+        {
+          status: webhook ? 409 : 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const delivery = await enqueueWebhookPing(db, webhook);
+
+    return NextResponse.json({ delivery: serializeWebhookDelivery(delivery) }, {
+      status: 202,
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error pinging webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to ping webhook', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
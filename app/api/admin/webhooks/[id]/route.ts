@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { disableWebhook, getWebhook, serializeWebhook } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to fetch one webhook
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+    const webhook = await getWebhook(db, id);
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    return NextResponse.json({ webhook: serializeWebhook(webhook) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// DELETE endpoint to disable a webhook. The record and its delivery log are kept.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+    const webhook = await disableWebhook(db, id);
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: 'Webhook not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    return NextResponse.json({ webhook: serializeWebhook(webhook) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error disabling webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable webhook', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
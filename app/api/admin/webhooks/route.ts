@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeAdmin } from '@/lib/auth';
+import { toValidationIssues } from '@/lib/validation';
+import { createWebhook, listWebhooks, serializeWebhook, webhookRequestSchema } from '@/lib/webhooks';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to register a webhook. The signing secret is only returned here.
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = undefined;
+    }
+
+    const parsed = webhookRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid webhook.', errors: toValidationIssues(parsed.error, body) },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const webhook = await createWebhook(db, parsed.data);
+
+    return NextResponse.json(
+      { secret: webhook.secret, webhook: serializeWebhook(webhook) },
+      {
+        status: 201,
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// GET endpoint to list webhooks, including disabled ones
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if ('error' in auth) return authErrorResponse(request, auth);
+
+  try {
+    const db = await getDatabase();
+    const webhooks = await listWebhooks(db);
+
+    return NextResponse.json({ webhooks: webhooks.map(serializeWebhook) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCorsHeaders } from '@/lib/cors';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint for the OpenAPI 3.1 document of /api/talent. It is public, and
+// `npm run generate:api-client` builds lib/api-client.ts from it.
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(buildOpenApiDocument(), {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error building OpenAPI document:', error);
+    return NextResponse.json(
+      { error: 'Failed to build OpenAPI document', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { getSavedSearch, listUnseenMatches, serializeSavedSearch } from '@/lib/saved-searches';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to list a saved search's unseen matches, newest first, with the matching talents
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const savedSearch = await getSavedSearch(db, id);
+
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const matches = await listUnseenMatches(db, savedSearch._id);
+    const talents = await db
+      .collection('talents')
+      .find({ talent_id: { $in: matches.map(match => match.talent_id) } }, { projection: { _id: 0 } })
+      .toArray();
+    const talentById = new Map(talents.map(talent => [talent.talent_id as number, talent]));
+
+    return NextResponse.json(
+      {
+        savedSearch: serializeSavedSearch(savedSearch, matches.length),
+        matches: matches.map(({ talent_id, status, matchedAt }) => ({
+          talent_id,
+          status,
+          matchedAt,
+          talent: talentById.get(talent_id) ?? null,
+        })),
+      },
+      {
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error fetching saved search matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved search matches', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
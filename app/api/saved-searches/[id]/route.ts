@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { deleteSavedSearch, getSavedSearch } from '@/lib/saved-searches';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// DELETE endpoint to remove a saved search and its unseen matches
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const savedSearch = await getSavedSearch(db, id);
+
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    await deleteSavedSearch(db, savedSearch._id);
+
+    return NextResponse.json({ success: true, id }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved search', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
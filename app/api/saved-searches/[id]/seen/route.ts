@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { getSavedSearch, markSavedSearchSeen } from '@/lib/saved-searches';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to mark all of a saved search's matches as seen
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const savedSearch = await getSavedSearch(db, id);
+
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const cleared = await markSavedSearchSeen(db, savedSearch._id);
+
+    return NextResponse.json({ success: true, id, cleared }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error marking saved search seen:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark saved search seen', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { toValidationIssues } from '@/lib/validation';
+import { createSavedSearch, listSavedSearches, savedSearchRequestSchema, serializeSavedSearch } from '@/lib/saved-searches';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to list saved searches with their unseen match counts
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const db = await getDatabase();
+    const savedSearches = await listSavedSearches(db);
+
+    return NextResponse.json({ savedSearches }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved searches', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// POST endpoint to save a search. Matches are recorded from now on.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = undefined;
+    }
+
+    const parsed = savedSearchRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid saved search.', errors: toValidationIssues(parsed.error, body) },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const savedSearch = await createSavedSearch(db, parsed.data);
+
+    return NextResponse.json(
+      { savedSearch: serializeSavedSearch(savedSearch) },
+      {
+        status: 201,
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating saved search:', error);
+    return NextResponse.json(
+      { error: 'Failed to create saved search', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { resumeScrapeJob, runScrapeJob, serializeScrapeJob } from '@/lib/scrape-jobs';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to resume a failed or interrupted scrape job from its checkpoint
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const resumed = await resumeScrapeJob(db, id);
+
+    if ('error' in resumed) {
+      return NextResponse.json(
+        { error: resumed.error, id },
+        {
+          status: resumed.status,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const { job } = resumed;
+
+    // The job keeps running in this server process after the response is sent
+    runScrapeJob(db, job._id).catch(error => {
+      console.error('Error running scrape job:', error);
+    });
+
+    return NextResponse.json(
+      { job: serializeScrapeJob(job) },
+      {
+        status: 202,
+        headers: {
+          ...getCorsHeaders(request),
+          Location: `/api/scrape-jobs/${job._id.toHexString()}`,
+        }
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error resuming scrape job:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume scrape job', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { getScrapeJob, serializeScrapeJob } from '@/lib/scrape-jobs';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to report a scrape job's progress, counts and per-talent failures
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const job = await getScrapeJob(db, id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Scrape job not found', id },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    return NextResponse.json({ job: serializeScrapeJob(job) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching scrape job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scrape job', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { toValidationIssues } from '@/lib/validation';
+import { createScrapeJob, listScrapeJobs, runScrapeJob, scrapeJobRequestSchema, serializeScrapeJob } from '@/lib/scrape-jobs';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to start a scrape job in the background
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = undefined;
+    }
+
+    const parsed = scrapeJobRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid scrape job.', errors: toValidationIssues(parsed.error, body) },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+
+    let job;
+    try {
+      job = await createScrapeJob(db, parsed.data);
+    } catch (error: unknown) {
+      return NextResponse.json(
+        { error: 'Invalid scrape job.', errors: [{ field: 'queryUrl', message: error instanceof Error ? error.message : String(error) }] },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    // The job keeps running in this server process after the response is sent
+    runScrapeJob(db, job._id).catch(error => {
+      console.error('Error running scrape job:', error);
+    });
+
+    return NextResponse.json(
+      { job: serializeScrapeJob(job) },
+      {
+        status: 202,
+        headers: {
+          ...getCorsHeaders(request),
+          Location: `/api/scrape-jobs/${job._id.toHexString()}`,
+        }
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error creating scrape job:', error);
+    return NextResponse.json(
+      { error: 'Failed to create scrape job', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// GET endpoint to list the most recent scrape jobs
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const db = await getDatabase();
+    const jobs = await listScrapeJobs(db);
+
+    return NextResponse.json({ jobs: jobs.map(serializeScrapeJob) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching scrape jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scrape jobs', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
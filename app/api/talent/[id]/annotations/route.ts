@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { toValidationIssues } from '@/lib/validation';
+import { parseTalentId } from '@/lib/talent-store';
+import { annotationUpdateSchema, getAnnotation, serializeAnnotation, updateAnnotation } from '@/lib/talent-annotations';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to fetch a talent's notes, tags and pipeline stage
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const { id } = await params;
+    const talentId = parseTalentId(id);
+    if (!talentId) {
+      return NextResponse.json(
+        { error: 'Invalid talent ID. Must be a valid number.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const annotation = await getAnnotation(db, talentId);
+
+    return NextResponse.json({ annotation: serializeAnnotation(annotation, talentId) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching annotation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch annotation', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// PATCH endpoint to update a talent's notes, tags or pipeline stage; omitted fields are kept
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const { id } = await params;
+    const talentId = parseTalentId(id);
+    if (!talentId) {
+      return NextResponse.json(
+        { error: 'Invalid talent ID. Must be a valid number.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = undefined;
+    }
+
+    const parsed = annotationUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid annotation.', errors: toValidationIssues(parsed.error, body) },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const talent = await db.collection('talents').findOne({ talent_id: talentId }, { projection: { _id: 1 } });
+    if (!talent) {
+      return NextResponse.json(
+        { error: 'Talent not found', id: talentId },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const annotation = await updateAnnotation(db, talentId, parsed.data);
+
+    return NextResponse.json({ annotation: serializeAnnotation(annotation, talentId) }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update annotation', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { parseTalentId, TalentHistoryEntry } from '@/lib/talent-store';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to fetch the change timeline of a talent, newest first.
+// Pass ?full=true to include the previous version of each document.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const { id } = await params;
+    const talentId = parseTalentId(id);
+    if (!talentId) {
+      return NextResponse.json(
+        { error: 'Invalid talent ID. Must be a valid number.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const full = request.nextUrl.searchParams.get('full') === 'true';
+
+    const db = await getDatabase();
+    const talent = await db.collection('talents').findOne(
+      { talent_id: talentId },
+      { projection: { version: 1, updatedAt: 1 } }
+    );
+    if (!talent) {
+      return NextResponse.json(
+        { error: 'Talent not found', id: talentId },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const history = await db
+      .collection<TalentHistoryEntry>('talent_history')
+      .find({ talent_id: talentId }, { projection: full ? { _id: 0 } : { _id: 0, previous: 0 } })
+      .sort({ changedAt: -1, version: -1 })
+      .toArray();
+
+    return NextResponse.json({
+      id: talentId,
+      version: talent.version ?? 0,
+      updatedAt: talent.updatedAt,
+      history,
+    }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching talent history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch talent history', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { getTalentETag, matchesIfNoneMatch } from '@/lib/etag';
+import { parseTalentId } from '@/lib/talent-store';
+import { patchTalent } from '@/lib/talent-patch';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to fetch a single talent document by talent_id.
+// Responds 304 when If-None-Match holds the talent's current ETag.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const { id } = await params;
+    const talentId = parseTalentId(id);
+    if (!talentId) {
+      return NextResponse.json(
+        { error: 'Invalid talent ID. Must be a valid number.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const collection = db.collection('talents');
+
+    const talent = await collection.findOne({ talent_id: talentId });
+    if (!talent) {
+      return NextResponse.json(
+        { error: 'Talent not found', id: talentId },
+        {
+          status: 404,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const etag = getTalentETag(talent);
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && matchesIfNoneMatch(ifNoneMatch, etag)) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ...getCorsHeaders(request), ETag: etag }
+      });
+    }
+
+    return NextResponse.json({ talent }, {
+      headers: { ...getCorsHeaders(request), ETag: etag }
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching talent:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch talent', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
+
+// PATCH endpoint to partially update a talent with a JSON Merge Patch
+// (RFC 7386): null removes a field, objects are merged, other values replace.
+// With If-Match, the patch only applies while the talent has that ETag (412 otherwise).
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const { id } = await params;
+    const talentId = parseTalentId(id);
+    if (!talentId) {
+      return NextResponse.json(
+        { error: 'Invalid talent ID. Must be a valid number.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    let patch: unknown;
+    try {
+      patch = await request.json();
+    } catch {
+      patch = undefined;
+    }
+
+    const db = await getDatabase();
+    const patched = await patchTalent(db, talentId, patch, request.headers.get('if-match'));
+    if ('error' in patched) {
+      if (patched.status === 500) throw new Error(patched.error);
+      return NextResponse.json(
+        { error: patched.error, ...(patched.errors ? { errors: patched.errors } : {}) },
+        {
+          status: patched.status,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const talent = await db.collection('talents').findOne({ talent_id: talentId });
+    return NextResponse.json(
+      { success: true, status: patched.result.status, changes: patched.result.changes, talent },
+      {
+        headers: {
+          ...getCorsHeaders(request),
+          ...(talent ? { ETag: getTalentETag(talent) } : {})
+        }
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error patching talent:', error);
+    return NextResponse.json(
+      { error: 'Failed to patch talent', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
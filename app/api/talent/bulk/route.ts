@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { bulkUpsertTalents, SaveResult } from '@/lib/talent-store';
+
+// Maximum number of talents accepted in a single request
+const MAX_BATCH_SIZE = 500;
+
+type ParsedRecord = { record?: unknown; error?: string };
+
+// Accept either a JSON array or NDJSON (one talent per line)
+function parseBody(body: string, contentType: string): ParsedRecord[] | null {
+  const trimmed = body.trim();
+  const isNdjson = contentType.includes('ndjson') || (trimmed !== '' && !trimmed.startsWith('['));
+
+  if (!isNdjson) {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed.map(record => ({ record })) : null;
+  }
+
+  return trimmed
+    .split('\n')
+    .map((line, lineIndex) => ({ line: line.trim(), lineNumber: lineIndex + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineNumber }) => {
+      try {
+        return { record: JSON.parse(line) };
+      } catch {
+        return { error: `Invalid JSON on line ${lineNumber}` };
+      }
+    });
+}
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to save/update many talents with a single bulkWrite
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    let parsed: ParsedRecord[] | null;
+    try {
+      parsed = parseBody(await request.text(), request.headers.get('content-type') || '');
+    } catch {
+      parsed = null;
+    }
+
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Invalid body. Send a JSON array or NDJSON of talents.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    if (parsed.length === 0) {
+      return NextResponse.json(
+        { error: 'No talents provided.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    if (parsed.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Batch too large. At most ${MAX_BATCH_SIZE} talents per request.`, maxBatchSize: MAX_BATCH_SIZE },
+        {
+          status: 413,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+
+    // Unparseable NDJSON lines are rejected without reaching the database
+    const records = parsed.filter(entry => !entry.error).map(entry => entry.record);
+    const saved = await bulkUpsertTalents(db, records);
+
+    let savedIndex = 0;
+    const results: Array<SaveResult & { index: number }> = parsed.map((entry, index) => (
+      entry.error
+        ? { index, id: null, status: 'rejected', reason: entry.error }
+        : { index, ...saved[savedIndex++] }
+    ));
+
+    const summary = { inserted: 0, updated: 0, unchanged: 0, rejected: 0 };
+    results.forEach(result => {
+      summary[result.status]++;
+    });
+
+    return NextResponse.json(
+      {
+        success: summary.rejected === 0,
+        total: results.length,
+        summary,
+        results
+      },
+      {
+        status: 200,
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error saving talents in bulk:', error);
+    return NextResponse.json(
+      { error: 'Failed to save talents', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { buildTalentListPipeline, parseTalentFilters, parseTalentSort, prepareTalentQuery } from '@/lib/talent-query';
+import { EXPORT_FORMATS, ExportFormat, resolveExportColumns, toCsvRow } from '@/lib/talent-export';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint to stream the filtered talent list as CSV, JSON or NDJSON.
+// Accepts the same search and filter parameters as GET /api/talent.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    const parsed = parseTalentFilters(searchParams);
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Use one of: ${EXPORT_FORMATS.join(', ')}.` },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error, errors: parsed.errors },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+    const parsedFilters = parsed.filters;
+
+    const sort = parseTalentSort(searchParams, parsedFilters);
+    if ('error' in sort) {
+      return NextResponse.json(
+        { error: sort.error },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const resolved = resolveExportColumns(searchParams.get('columns'));
+    if ('error' in resolved) {
+      return NextResponse.json(
+        { error: resolved.error },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+    const { columns } = resolved;
+
+    const db = await getDatabase();
+    const collection = db.collection('talents');
+    const filters = await prepareTalentQuery(db, parsedFilters);
+
+    // Whole-collection sorts can exceed the in-memory sort limit
+    const cursor = collection.aggregate([
+      ...buildTalentListPipeline(filters, sort),
+      { $project: { _id: 0, _sort: 0 } },
+    ], { allowDiskUse: true });
+
+    // Stream documents straight from the cursor instead of buffering the whole result
+    const encoder = new TextEncoder();
+    let first = true;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === 'csv') {
+          controller.enqueue(encoder.encode(toCsvRow(columns.map(column => column.name))));
+        } else if (format === 'json') {
+          controller.enqueue(encoder.encode('['));
+        }
+      },
+      async pull(controller) {
+        try {
+          const talent = await cursor.next();
+          if (!talent) {
+            if (format === 'json') controller.enqueue(encoder.encode(']\n'));
+            controller.close();
+            return;
+          }
+
+          let chunk: string;
+          if (format === 'csv') {
+            chunk = toCsvRow(columns.map(column => column.value(talent)));
+          } else if (format === 'json') {
+            chunk = (first ? '' : ',') + JSON.stringify(talent);
+          } else {
+            chunk = JSON.stringify(talent) + '\n';
+          }
+          first = false;
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error: unknown) {
+          console.error('Error exporting talents:', error);
+          await cursor.close();
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await cursor.close();
+      },
+    });
+
+    const filename = `talents-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new NextResponse(stream, {
+      headers: {
+        ...getCorsHeaders(request),
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error exporting talents:', error);
+    return NextResponse.json(
+      { error: 'Failed to export talents', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
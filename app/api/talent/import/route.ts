@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { ImportSource, importTalents, MAX_IMPORT_RECORDS, parseImportSources } from '@/lib/talent-import';
+
+// Files of a multipart upload, or the request body as a single source
+async function readSources(request: NextRequest): Promise<ImportSource[]> {
+  if (!(request.headers.get('content-type') || '').includes('multipart/form-data')) {
+    return [{ name: 'body', text: await request.text() }];
+  }
+
+  const form = await request.formData();
+  const files = Array.from(form.values()).filter((value): value is File => typeof value !== 'string');
+  return Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+}
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// POST endpoint to import saved Braintrust list and /freelancers/{id}
+// responses or talent exports, as JSON or NDJSON: either the request body or
+// the files of a multipart upload. List items are merged with their details.
+// With ?dry_run=true, reports what would be inserted, updated, unchanged or
+// invalid without writing anything.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const dryRun = request.nextUrl.searchParams.get('dry_run') === 'true';
+
+    let sources: ImportSource[] | null;
+    try {
+      sources = await readSources(request);
+    } catch {
+      sources = null;
+    }
+
+    if (!sources) {
+      return NextResponse.json(
+        { error: 'Invalid body. Send JSON, NDJSON or a multipart upload of files.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const parsed = parseImportSources(sources);
+    const recordCount = parsed.records.length + parsed.invalid.length;
+
+    if (recordCount === 0) {
+      return NextResponse.json(
+        { error: 'No talents provided.' },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    if (recordCount > MAX_IMPORT_RECORDS) {
+      return NextResponse.json(
+        { error: `Import too large. At most ${MAX_IMPORT_RECORDS} records per request.`, maxRecords: MAX_IMPORT_RECORDS },
+        {
+          status: 413,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const report = await importTalents(db, parsed, { dryRun });
+
+    return NextResponse.json(
+      {
+        success: report.summary.invalid === 0,
+        ...report
+      },
+      {
+        status: 200,
+        headers: getCorsHeaders(request)
+      }
+    );
+  } catch (error: unknown) {
+    console.error('Error importing talents:', error);
+    return NextResponse.json(
+      { error: 'Failed to import talents', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -1,240 +1,352 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Document } from 'mongodb';
 import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { parseTalentIds, saveTalentDocuments, toTalentDocument } from '@/lib/talent-store';
+import { getTalentETag } from '@/lib/etag';
+import { TalentBatchResponse, TalentListResponse, TalentSaveResponse, toTalentListItems } from '@/lib/openapi';
+import { buildHighlights } from '@/lib/talent-search';
+import { getAnnotationsByTalentId, listAnnotationTags, serializeAnnotation } from '@/lib/talent-annotations';
+import {
+  buildFilterMatch,
+  buildTalentListPipeline,
+  buildTextMatch,
+  getSortField,
+  parseTalentFilters,
+  parseTalentSort,
+  prepareTalentQuery,
+} from '@/lib/talent-query';
+import { decodeCursor, encodeCursor, matchAfterCursor, MAX_LIMIT, parsePositiveInt } from '@/lib/pagination';
 
-// CORS headers helper
-function getCorsHeaders() {
-  return {
-    'Access-Control-Allow-Origin': '*', // Allow all origins (change to specific domain in production)
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Access-Control-Max-Age': '86400', // 24 hours
-  };
+const SUPERPOWER_FACET_LIMIT = 50;
+
+// GET ?ids=12,7,31: the stored talents with these ids in the order requested,
+// and the ids that are not stored
+async function lookupTalents(request: NextRequest, idsParam: string) {
+  const ids = parseTalentIds(idsParam);
+  if (!ids || ids.length === 0 || ids.length > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `Invalid ids. Send 1 to ${MAX_LIMIT} comma-separated talent ids.` },
+      {
+        status: 400,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+
+  const db = await getDatabase();
+  const [documents, annotations] = await Promise.all([
+    db.collection('talents').find({ talent_id: { $in: ids } }).toArray(),
+    getAnnotationsByTalentId(db, ids),
+  ]);
+  const byId = new Map<number, Document>(documents.map(talent => [talent.talent_id, talent]));
+  const talents = ids.flatMap(id => byId.get(id) ?? []);
+  talents.forEach(talent => {
+    talent.annotation = serializeAnnotation(annotations.get(talent.talent_id) ?? null, talent.talent_id);
+  });
+
+  return NextResponse.json({
+    talents: toTalentListItems(talents),
+    missing: ids.filter(id => !byId.has(id)),
+  } satisfies TalentBatchResponse, {
+    headers: getCorsHeaders(request)
+  });
 }
 
 // Handle OPTIONS request for CORS preflight
-export async function OPTIONS() {
-  return NextResponse.json({}, { headers: getCorsHeaders() });
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
 }
 
-// PUT endpoint to save/update talent data
+// PUT endpoint to save/update talent data. With If-Match, the talent is only
+// saved while it has that ETag (412 otherwise; `If-Match: *` requires it to exist).
 export async function PUT(request: NextRequest) {
-  let talentData;
-  
   try {
-    talentData = await request.json();
-    
-    if (!talentData || !talentData.id) {
+    const auth = await authorizeRequest(request, 'write');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const talentData = await request.json();
+
+    // Validate against the shared Talent schema; unknown fields end up in `raw`
+    const prepared = toTalentDocument(talentData);
+    if ('result' in prepared) {
       return NextResponse.json(
-        { error: 'Invalid talent data. ID is required.' },
+        prepared.result.errors
+          ? { error: 'Invalid talent data.', errors: prepared.result.errors }
+          : { error: prepared.result.reason },
         { 
           status: 400,
-          headers: getCorsHeaders()
+          headers: getCorsHeaders(request)
         }
       );
     }
 
     const db = await getDatabase();
-    const collection = db.collection('talents');
 
-    // Ensure id is a number, not null or undefined
-    const talentId = Number(talentData.id);
-    if (!talentId || isNaN(talentId)) {
+    // Upsert keyed on talent_id; unchanged documents are not rewritten
+    // and updates keep the previous version in talent_history
+    const [result] = await saveTalentDocuments(db, [prepared.dataToSave], {
+      ifMatch: request.headers.get('if-match')
+    });
+    if (result.preconditionFailed) {
       return NextResponse.json(
-        { error: 'Invalid talent ID. Must be a valid number.' },
-        { 
-          status: 400,
-          headers: getCorsHeaders()
+        { error: 'Precondition failed: the talent has changed', id: result.id },
+        {
+          status: 412,
+          headers: getCorsHeaders(request)
         }
       );
     }
-
-    // Prepare data with both id and talent_id (for the unique index)
-    // The unique index is on talent_id, so we must set it
-    const dataToSave: any = {
-      ...talentData,
-      id: talentId,
-      talent_id: talentId, // Set talent_id for the unique index
-      updatedAt: new Date()
-    };
-
-    // Remove any null/undefined values that might conflict with unique indexes
-    // But keep talent_id as it's required for the index
-    Object.keys(dataToSave).forEach(key => {
-      if (key !== 'talent_id' && (dataToSave[key] === null || dataToSave[key] === undefined)) {
-        delete dataToSave[key];
-      }
-    });
-
-    // Ensure talent_id is never null/undefined
-    if (!dataToSave.talent_id) {
-      dataToSave.talent_id = talentId;
+    if (result.status === 'rejected') {
+      throw new Error(result.reason);
     }
 
-    // Upsert: update if exists, insert if not
-    // Use talent_id for the query since that's what the unique index is on
-    const result = await collection.updateOne(
-      { talent_id: talentId },
-      { $set: dataToSave },
-      { upsert: true }
-    );
+    const saved = await db.collection('talents').findOne({ talent_id: result.id });
+
+    const messages = {
+      inserted: 'Talent saved successfully',
+      updated: 'Talent updated successfully',
+      unchanged: 'Talent unchanged',
+    };
 
     return NextResponse.json(
       { 
         success: true, 
-        message: 'Talent saved successfully',
-        id: talentId,
-        matched: result.matchedCount,
-        modified: result.modifiedCount,
-        upserted: result.upsertedCount
-      },
+        message: messages[result.status],
+        id: prepared.dataToSave.talent_id,
+        status: result.status,
+        changes: result.changes,
+        matched: result.status === 'inserted' ? 0 : 1,
+        modified: result.status === 'updated' ? 1 : 0,
+        upserted: result.status === 'inserted' ? 1 : 0
+      } satisfies TalentSaveResponse,
       { 
         status: 200,
-        headers: getCorsHeaders()
+        headers: {
+          ...getCorsHeaders(request),
+          ...(saved ? { ETag: getTalentETag(saved) } : {})
+        }
       }
     );
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error saving talent:', error);
-    
-    // Handle duplicate key error specifically
-    if (error.code === 11000 && talentData) {
-      // Duplicate key error - try to update existing document using talent_id
-      try {
-        const db = await getDatabase();
-        const collection = db.collection('talents');
-        const talentId = Number(talentData.id);
-        
-        if (talentId && !isNaN(talentId)) {
-          const dataToSave: any = {
-            ...talentData,
-            id: talentId,
-            talent_id: talentId, // Ensure talent_id is set
-            updatedAt: new Date()
-          };
-          
-          // Remove null/undefined values but keep talent_id
-          Object.keys(dataToSave).forEach(key => {
-            if (key !== 'talent_id' && (dataToSave[key] === null || dataToSave[key] === undefined)) {
-              delete dataToSave[key];
-            }
-          });
-          
-          // Ensure talent_id is never null
-          if (!dataToSave.talent_id) {
-            dataToSave.talent_id = talentId;
-          }
-          
-          // Try to find and update by talent_id first
-          let result = await collection.updateOne(
-            { talent_id: talentId },
-            { $set: dataToSave }
-          );
-          
-          // If not found, try by id
-          if (result.matchedCount === 0) {
-            result = await collection.updateOne(
-              { id: talentId },
-              { $set: dataToSave }
-            );
-          }
-          
-          return NextResponse.json(
-            { 
-              success: true, 
-              message: 'Talent updated successfully (duplicate key resolved)',
-              id: talentId,
-              matched: result.matchedCount,
-              modified: result.modifiedCount
-            },
-            { 
-              status: 200,
-              headers: getCorsHeaders()
-            }
-          );
-        }
-      } catch (retryError: any) {
-        console.error('Error retrying save after duplicate key error:', retryError);
-      }
-    }
-    
     return NextResponse.json(
-      { error: 'Failed to save talent', details: error.message },
+      { error: 'Failed to save talent', details: error instanceof Error ? error.message : String(error) },
       { 
         status: 500,
-        headers: getCorsHeaders()
+        headers: getCorsHeaders(request)
       }
     );
   }
 }
 
-// GET endpoint to fetch talents with pagination, search, and filters
+// GET endpoint to fetch talents with pagination, search, and filters, or
+// specific talents with ?ids=
 export async function GET(request: NextRequest) {
   try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
     const searchParams = request.nextUrl.searchParams;
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const search = searchParams.get('search') || '';
-    const role = searchParams.get('role') || '';
-    const nationality = searchParams.get('nationality') || '';
-    const available = searchParams.get('available') === 'true';
-    const skip = (page - 1) * limit;
+    if (searchParams.has('ids')) {
+      return await lookupTalents(request, searchParams.get('ids') || '');
+    }
 
-    const db = await getDatabase();
-    const collection = db.collection('talents');
+    const page = parsePositiveInt(searchParams.get('page'), 1);
+    const limit = parsePositiveInt(searchParams.get('limit'), 20);
+    const parsed = parseTalentFilters(searchParams);
 
-    // Build query
-    const query: any = {};
-    
-    if (search) {
-      query.$or = [
-        { 'user.public_name': { $regex: search, $options: 'i' } },
-        { 'user.introduction_headline': { $regex: search, $options: 'i' } },
-        { 'user.introduction': { $regex: search, $options: 'i' } },
-      ];
+    if (page === null || limit === null) {
+      return NextResponse.json(
+        { error: 'Invalid pagination. page and limit must be positive integers.' },
+        { 
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    if (limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid limit. At most ${MAX_LIMIT} talents per page.` },
+        { 
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
     }
 
-    if (role) {
-      query['role.name'] = role;
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error, errors: parsed.errors },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
     }
+    const parsedFilters = parsed.filters;
+    const search = parsedFilters.search;
 
-    if (nationality) {
-      query.country = nationality;
+    const sort = parseTalentSort(searchParams, parsedFilters);
+    if ('error' in sort) {
+      return NextResponse.json(
+        { error: sort.error },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
     }
 
-    if (available) {
-      query.availability_for_work = true;
+    // Cursor mode: pass an empty `cursor` for the first page, then each `nextCursor`
+    const cursorMode = searchParams.has('cursor');
+    const cursorParam = searchParams.get('cursor') || '';
+    const cursor = cursorParam ? decodeCursor(cursorParam, sort) : null;
+
+    if (cursorMode && search) {
+      return NextResponse.json(
+        { error: 'Cursor pagination is not supported with search. Use page instead.' },
+        { 
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
     }
 
-    // Get total count
-    const totalCount = await collection.countDocuments(query);
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { error: 'Invalid cursor. Cursors only work with the sort and order they were created for.' },
+        { 
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
 
-    // Fetch talents
-    const talents = await collection
-      .find(query)
-      .sort({ 'personal_rank': -1, id: 1 })
-      .skip(skip)
-      .limit(limit)
+    const db = await getDatabase();
+    const collection = db.collection('talents');
+
+    const filters = await prepareTalentQuery(db, parsedFilters);
+    const textMatch = buildTextMatch(filters);
+
+    // In cursor mode, fetch one extra talent to know whether there is a next page
+    const talentsPromise = collection
+      .aggregate(buildTalentListPipeline(filters, sort, {
+        after: cursor ? matchAfterCursor(cursor, getSortField(sort)) : undefined,
+        skip: cursorMode ? 0 : (page - 1) * limit,
+        limit: cursorMode ? limit + 1 : limit,
+      }))
       .toArray();
 
-    // Get unique roles for filter
-    const roles = await collection.distinct('role.name');
-    
-    // Get unique nationalities for filter
-    const nationalities = await collection.distinct('country');
+    // Total count and filter facets in one aggregation; $text must be the first stage
+    const facetsPromise = collection.aggregate([
+      ...(search ? [{ $match: textMatch }] : []),
+      {
+        $facet: {
+          total: [
+            { $match: buildFilterMatch(filters) },
+            { $count: 'count' },
+          ],
+          roles: [
+            { $match: buildFilterMatch(filters, 'role') },
+            { $group: { _id: '$role.name', count: { $sum: 1 } } },
+            { $match: { _id: { $nin: [null, ''] } } },
+            { $sort: { count: -1, _id: 1 } },
+          ],
+          nationalities: [
+            { $match: buildFilterMatch(filters, 'nationality') },
+            { $group: { _id: '$country', count: { $sum: 1 } } },
+            { $match: { _id: { $nin: [null, ''] } } },
+            { $sort: { _id: 1 } },
+          ],
+          availability: [
+            { $match: buildFilterMatch(filters, 'available') },
+            { $group: { _id: { $eq: ['$availability_for_work', true] }, count: { $sum: 1 } } },
+          ],
+          // The most common superpowers, for the superpower filter
+          superpowers: [
+            { $match: buildFilterMatch(filters, 'superpower') },
+            { $unwind: '$superpowers' },
+            { $group: { _id: '$superpowers.name', count: { $sum: 1 } } },
+            { $match: { _id: { $nin: [null, ''] } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: SUPERPOWER_FACET_LIMIT },
+          ],
+          profiles: [
+            { $match: buildFilterMatch(filters, 'profile') },
+            { $unwind: '$external_profiles' },
+            { $group: { _id: '$external_profiles.site.name', count: { $sum: 1 } } },
+            { $match: { _id: { $nin: [null, ''] } } },
+            { $sort: { count: -1, _id: 1 } },
+          ],
+        },
+      },
+    ]).toArray();
+
+    const [talents, [facets], tags] = await Promise.all([talentsPromise, facetsPromise, listAnnotationTags(db)]);
+    const hasMore = cursorMode && talents.length > limit;
+    if (hasMore) {
+      talents.pop();
+    }
+    const nextCursor = hasMore ? encodeCursor(talents[talents.length - 1], sort) : null;
+    talents.forEach(talent => {
+      delete talent._sort;
+    });
+    const totalCount: number = facets.total[0]?.count || 0;
+    const toFacetCounts = (buckets: Array<{ _id: string; count: number }>) =>
+      buckets.map(bucket => ({ value: bucket._id, count: bucket.count }));
+    const availabilityCount = (value: boolean) =>
+      facets.availability.find((bucket: { _id: boolean }) => bucket._id === value)?.count || 0;
+
+    // Attach the team's notes, tags and stage
+    const annotations = await getAnnotationsByTalentId(db, talents.map(talent => talent.talent_id ?? talent.id));
+    talents.forEach(talent => {
+      const talentId = talent.talent_id ?? talent.id;
+      talent.annotation = serializeAnnotation(annotations.get(talentId) ?? null, talentId);
+    });
+
+    // Attach highlighted match snippets
+    if (search) {
+      talents.forEach(talent => {
+        talent.highlights = buildHighlights(talent, search);
+      });
+    }
 
     return NextResponse.json({
-      talents,
-      pagination: {
+      talents: toTalentListItems(talents),
+      pagination: cursorMode ? {
+        limit,
+        total: totalCount,
+        nextCursor,
+      } : {
         page,
         limit,
         total: totalCount,
         totalPages: Math.ceil(totalCount / limit),
       },
+      sort: { key: sort.key, order: sort.direction === 1 ? 'asc' : 'desc' },
       filters: {
-        roles: roles.filter(Boolean),
-        nationalities: nationalities.filter(Boolean).sort(),
+        roles: toFacetCounts(facets.roles),
+        nationalities: toFacetCounts(facets.nationalities),
+        superpowers: toFacetCounts(facets.superpowers),
+        profiles: toFacetCounts(facets.profiles),
+        availability: {
+          available: availabilityCount(true),
+          unavailable: availabilityCount(false),
+        },
+        tags,
       },
-    }, {
-      headers: getCorsHeaders()
+    } satisfies TalentListResponse, {
+      headers: getCorsHeaders(request)
     });
   } catch (error: any) {
     console.error('Error fetching talents:', error);
@@ -242,7 +354,7 @@ export async function GET(request: NextRequest) {
       { error: 'Failed to fetch talents', details: error.message },
       { 
         status: 500,
-        headers: getCorsHeaders()
+        headers: getCorsHeaders(request)
       }
     );
   }
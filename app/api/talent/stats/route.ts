@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { authErrorResponse, authorizeRequest } from '@/lib/auth';
+import { rateLimitResponse, takeRateLimitToken } from '@/lib/rate-limit';
+import { parsePositiveInt } from '@/lib/pagination';
+import { parseTalentFilters, prepareTalentQuery } from '@/lib/talent-query';
+import { DEFAULT_ACTIVITY_DAYS, getTalentStats, MAX_ACTIVITY_DAYS } from '@/lib/talent-stats';
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: getCorsHeaders(request) });
+}
+
+// GET endpoint for aggregate statistics over the talents matching the filters
+// of GET /api/talent. ?days= sets the length of the activity time series.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'read');
+    if ('error' in auth) return authErrorResponse(request, auth);
+
+    const rateLimit = await takeRateLimitToken(request, auth.apiKey);
+    if (!rateLimit.allowed) return rateLimitResponse(request, rateLimit);
+
+    const searchParams = request.nextUrl.searchParams;
+    const days = parsePositiveInt(searchParams.get('days'), DEFAULT_ACTIVITY_DAYS);
+    if (days === null || days > MAX_ACTIVITY_DAYS) {
+      return NextResponse.json(
+        { error: `Invalid days. Must be a positive integer of at most ${MAX_ACTIVITY_DAYS}.` },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const parsed = parseTalentFilters(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error, errors: parsed.errors },
+        {
+          status: 400,
+          headers: getCorsHeaders(request)
+        }
+      );
+    }
+
+    const db = await getDatabase();
+    const filters = await prepareTalentQuery(db, parsed.filters);
+    const stats = await getTalentStats(db.collection('talents'), filters, days);
+
+    return NextResponse.json({ stats }, {
+      headers: getCorsHeaders(request)
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching talent stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch talent stats', details: error instanceof Error ? error.message : String(error) },
+      {
+        status: 500,
+        headers: getCorsHeaders(request)
+      }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { createApiClient, type TalentListItem } from '@/lib/api-client';
+import { getInitials, getRoleColor, MAX_COMPARED_TALENTS, MIN_COMPARED_TALENTS } from '@/lib/talent-display';
+
+const apiClient = createApiClient();
+
+// `?ids=12,7,31`, in order and without repeats
+const parseIds = (value: string | null) => (
+  Array.from(new Set((value || '').split(',').map((id) => id.trim()).filter((id) => /^\d+$/.test(id)).map(Number)))
+);
+
+const emptyCell = <span className="text-gray-400 dark:text-gray-500">—</span>;
+
+type CompareRow = {
+  label: string;
+  // `shared`: superpowers that several of the compared talents have
+  render: (talent: TalentListItem, shared: Set<string>) => React.ReactNode;
+};
+
+const COMPARE_ROWS: CompareRow[] = [
+  {
+    label: 'Role',
+    render: (talent) => (
+      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(talent.role.color)}`}>
+        {talent.role.name}
+      </span>
+    ),
+  },
+  { label: 'Headline', render: (talent) => talent.user.introduction_headline || emptyCell },
+  { label: 'Location', render: (talent) => talent.location || emptyCell },
+  { label: 'Country', render: (talent) => talent.country || emptyCell },
+  {
+    label: 'Availability',
+    render: (talent) => (
+      <span
+        className={`px-2 py-1 rounded-full text-xs font-medium ${talent.availability_for_work ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'}`}
+      >
+        {talent.availability_for_work ? 'Available for work' : 'Not available'}
+      </span>
+    ),
+  },
+  { label: 'Jobs', render: (talent) => talent.total_jobs ?? 0 },
+  {
+    label: 'Rating',
+    render: (talent) => (talent.average_rating ? `★ ${Number(talent.average_rating).toFixed(1)}` : emptyCell),
+  },
+  { label: 'Reviews', render: (talent) => talent.review_count ?? 0 },
+  {
+    label: 'Superpowers',
+    render: (talent, shared) => (
+      talent.superpowers && talent.superpowers.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {talent.superpowers.map((superpower) => (
+            <span
+              key={superpower.id}
+              className={`px-2 py-0.5 rounded-full text-xs ${shared.has(superpower.name)
+                ? 'bg-amber-100 text-amber-900 ring-1 ring-amber-400 dark:bg-amber-900 dark:text-amber-100'
+                : 'bg-blue-50 text-blue-800 dark:bg-blue-900 dark:text-blue-200'}`}
+            >
+              {superpower.name}
+            </span>
+          ))}
+        </div>
+      ) : emptyCell
+    ),
+  },
+  {
+    label: 'Profiles',
+    render: (talent) => (
+      talent.external_profiles && talent.external_profiles.length > 0 ? (
+        <ul className="space-y-1">
+          {talent.external_profiles.map((profile) => (
+            <li key={profile.id}>
+              <a
+                href={profile.public_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Image src={profile.site.logo.thumbnail} alt="" width={16} height={16} className="rounded-full bg-white" />
+                {profile.site.name}
+              </a>
+            </li>
+          ))}
+        </ul>
+      ) : emptyCell
+    ),
+  },
+];
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const idsParam = searchParams.get('ids');
+  const [talents, setTalents] = useState<TalentListItem[]>([]);
+  const [missing, setMissing] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const ids = parseIds(idsParam).slice(0, MAX_COMPARED_TALENTS);
+  const tooFew = ids.length < MIN_COMPARED_TALENTS;
+
+  // Fetch the talents in the order of `ids`
+  useEffect(() => {
+    const requestedIds = parseIds(idsParam).slice(0, MAX_COMPARED_TALENTS);
+    if (requestedIds.length < MIN_COMPARED_TALENTS) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchTalents = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await apiClient.listTalents({ ids: requestedIds.join(',') });
+        setTalents(data.talents);
+        setMissing('missing' in data ? data.missing : []);
+      } catch (error) {
+        console.error('Error fetching talents to compare:', error);
+        setError('Failed to load talents');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTalents();
+  }, [idsParam]);
+
+  const removeTalent = (id: number) => {
+    router.replace(`/compare?ids=${ids.filter((talentId) => talentId !== id).join(',')}`);
+  };
+
+  // Superpowers held by more than one of the compared talents
+  const superpowerCounts = new Map<string, number>();
+  talents.forEach((talent) => {
+    new Set((talent.superpowers || []).map((superpower) => superpower.name)).forEach((name) => {
+      superpowerCounts.set(name, (superpowerCounts.get(name) || 0) + 1);
+    });
+  });
+  const sharedSuperpowers = new Set(
+    Array.from(superpowerCounts).filter(([, count]) => count > 1).map(([name]) => name)
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to talents
+        </Link>
+        <h1 className="mt-4 text-3xl font-bold text-gray-900 dark:text-white">Compare Talents</h1>
+
+        {tooFew ? (
+          <div className="text-center py-20">
+            <p className="text-gray-500 dark:text-gray-400 text-lg">
+              Pick {MIN_COMPARED_TALENTS}–{MAX_COMPARED_TALENTS} talents in the table to compare them.
+            </p>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-20">
+            <p className="text-gray-500 dark:text-gray-400 text-lg">{error}</p>
+          </div>
+        ) : (
+          <>
+            {missing.length > 0 && (
+              <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
+                Not found: {missing.join(', ')}
+              </p>
+            )}
+            {sharedSuperpowers.size > 0 && (
+              <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+                <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-900 ring-1 ring-amber-400 dark:bg-amber-900 dark:text-amber-100">
+                  Highlighted
+                </span>{' '}
+                superpowers are shared by several of these talents.
+              </p>
+            )}
+
+            <div className="mt-6 overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+              <table className="w-full table-fixed border-collapse">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="w-36 p-4" />
+                    {talents.map((talent) => (
+                      <th key={talent.id} className="p-4 text-left align-top">
+                        <div className="flex items-center gap-3">
+                          {talent.user.avatar_thumbnail ? (
+                            <Image
+                              src={talent.user.avatar_thumbnail}
+                              alt={talent.user.public_name}
+                              width={48}
+                              height={48}
+                              className="rounded-full"
+                            />
+                          ) : (
+                            <div className="w-12 h-12 shrink-0 rounded-full flex items-center justify-center text-sm font-semibold text-white bg-gradient-to-br from-blue-500 to-purple-600">
+                              {getInitials(talent.user.public_name)}
+                            </div>
+                          )}
+                          <div className="min-w-0">
+                            <Link
+                              href={`/talent/${talent.id}`}
+                              className="block font-semibold text-blue-600 dark:text-blue-400 hover:underline truncate"
+                            >
+                              {talent.user.public_name}
+                            </Link>
+                            {talents.length > MIN_COMPARED_TALENTS && (
+                              <button
+                                onClick={() => removeTalent(talent.id)}
+                                className="text-xs font-normal text-gray-500 hover:text-red-600"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARE_ROWS.map((row) => (
+                    <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+                      <th scope="row" className="p-4 text-left align-top text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        {row.label}
+                      </th>
+                      {talents.map((talent) => (
+                        <td key={talent.id} className="p-4 align-top text-sm text-gray-700 dark:text-gray-300">
+                          {row.render(talent, sharedSuperpowers)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    }>
+      <CompareContent />
+    </Suspense>
+  );
+}
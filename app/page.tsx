@@ -2,47 +2,182 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  createApiClient,
+  type Annotation,
+  type FacetCount,
+  type ListTalentsQuery,
+  type TalentListItem,
+} from '@/lib/api-client';
+import { getInitials, getRoleColor, MAX_COMPARED_TALENTS, MIN_COMPARED_TALENTS } from '@/lib/talent-display';
+import { PIPELINE_STAGES, type PipelineStage } from '@/lib/talent-annotations';
+import { fetchWithApiKey } from '@/lib/browser-api-key';
 
-type Talent = {
-  id: number;
-  user: {
-    first_name: string;
-    last_name: string;
-    public_name: string;
-    title: string;
-    introduction_headline?: string;
-    introduction?: string;
-    avatar?: string;
-    avatar_thumbnail?: string;
-  };
-  role: {
-    name: string;
-    color: string;
+const apiClient = createApiClient();
+
+type ViewMode = 'table' | 'list' | 'grid' | 'card';
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'table', label: 'Table' },
+  { value: 'list', label: 'List' },
+  { value: 'grid', label: 'Grid' },
+  { value: 'card', label: 'Card' },
+];
+
+const isViewMode = (value: string): value is ViewMode => VIEW_MODES.some((mode) => mode.value === value);
+
+// Sorts of GET /api/talent; an empty value leaves the default to the API
+// (relevance when searching, rank otherwise)
+type TalentSort = NonNullable<ListTalentsQuery['sort']>;
+
+const SORT_OPTIONS: { value: TalentSort | ''; label: string }[] = [
+  { value: '', label: 'Best match' },
+  { value: 'rank', label: 'Rank' },
+  { value: 'name', label: 'Name' },
+  { value: 'total_jobs', label: 'Jobs' },
+  { value: 'average_rating', label: 'Rating' },
+  { value: 'review_count', label: 'Reviews' },
+  { value: 'updatedAt', label: 'Last updated' },
+];
+
+type SortOrder = '' | 'asc' | 'desc';
+
+// Direction the API uses when no order is given
+const defaultSortOrder = (sort: string): 'asc' | 'desc' => (sort === 'name' ? 'asc' : 'desc');
+
+const appendSortParams = (params: URLSearchParams, sort: string, order: SortOrder) => {
+  if (sort) params.append('sort', sort);
+  if (sort && order) params.append('order', order);
+};
+
+type TableColumn = {
+  id: string;
+  label: string;
+  // Sort applied by clicking the header
+  sort?: TalentSort;
+  render: (talent: TalentListItem) => React.ReactNode;
+};
+
+// Table columns users can hide, and those hidden until they choose otherwise
+const HIDDEN_COLUMNS_STORAGE_KEY = 'talent-table-hidden-columns';
+const DEFAULT_HIDDEN_COLUMNS = ['country', 'availability', 'updatedAt'];
+
+const RANGE_FILTERS = [
+  { field: 'total_jobs', label: 'Jobs', step: 1 },
+  { field: 'average_rating', label: 'Rating', step: 0.1 },
+  { field: 'review_count', label: 'Reviews', step: 1 },
+] as const;
+
+type RangeParam = `${(typeof RANGE_FILTERS)[number]['field']}_${'min' | 'max'}`;
+
+const RANGE_PARAMS = RANGE_FILTERS.flatMap(({ field }) => [`${field}_min`, `${field}_max`]) as RangeParam[];
+
+// Filters of the "More filters" panel, named after their GET /api/talent
+// parameters. Range bounds are kept as typed, empty when unset.
+type MoreFilters = {
+  superpower: string[];
+  superpowers_mode: 'any' | 'all';
+  profile: string[];
+  include_stale: boolean;
+} & Record<RangeParam, string>;
+
+const toRangeValues = (getValue: (param: RangeParam) => string) => (
+  Object.fromEntries(RANGE_PARAMS.map((param) => [param, getValue(param)])) as Record<RangeParam, string>
+);
+
+const EMPTY_MORE_FILTERS: MoreFilters = {
+  superpower: [],
+  superpowers_mode: 'any',
+  profile: [],
+  include_stale: false,
+  ...toRangeValues(() => ''),
+};
+
+const appendMoreFilters = (params: URLSearchParams, filters: MoreFilters) => {
+  filters.superpower.forEach((superpower) => params.append('superpower', superpower));
+  // "All" only differs from "any" with several superpowers
+  if (filters.superpower.length > 1 && filters.superpowers_mode === 'all') params.append('superpowers_mode', 'all');
+  filters.profile.forEach((site) => params.append('profile', site));
+  RANGE_PARAMS.forEach((param) => {
+    if (filters[param].trim()) params.append(param, filters[param].trim());
+  });
+  if (filters.include_stale) params.append('include_stale', 'true');
+  return params;
+};
+
+// Compare filters by the parameters they produce
+const moreFiltersKey = (filters: MoreFilters) => appendMoreFilters(new URLSearchParams(), filters).toString();
+
+// The same filters as GET /api/talent query parameters
+const toMoreFiltersQuery = (filters: MoreFilters): ListTalentsQuery => {
+  const query: ListTalentsQuery = {
+    superpower: filters.superpower,
+    profile: filters.profile,
+    include_stale: filters.include_stale || undefined,
   };
-  external_profiles: [
-    {
-      id: number;
-      site: {
-        id: number;
-        name: string;
-        logo: {
-          id: number;
-          thumbnail: string;
-        };
-        placeholder: string;
-      };
-      public_url: string;
-    }
-  ];
-  location: string;
-  country: string;
-  total_jobs?: number;
-  average_rating?: string;
-  review_count: number;
-  availability_for_work: boolean;
-  superpowers?: Array<{ id: number; name: string }>;
-  personal_rank?: number[];
+  if (filters.superpower.length > 1 && filters.superpowers_mode === 'all') query.superpowers_mode = 'all';
+  RANGE_PARAMS.forEach((param) => {
+    if (filters[param].trim()) query[param] = Number(filters[param]);
+  });
+  return query;
+};
+
+const countMoreFilters = (filters: MoreFilters) => (
+  filters.superpower.length + filters.profile.length + RANGE_PARAMS.filter((param) => filters[param].trim()).length +
+  (filters.include_stale ? 1 : 0)
+);
+
+// Select value shown while several values of a multi-value filter are selected
+const MULTIPLE_VALUE = '__multiple__';
+
+const sameValues = (a: string[], b: string[]) => a.join('\n') === b.join('\n');
+
+// Checkbox list of facet values, for multi-value filters
+function FacetCheckboxes({ label, facets, selected, onChange }: {
+  label: string;
+  facets: FacetCount[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  return (
+    <fieldset>
+      <legend className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{label}</legend>
+      <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+        {facets.length === 0 && <p className="text-sm text-gray-400 dark:text-gray-500">None</p>}
+        {facets.map((facet) => (
+          <label key={facet.value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={selected.includes(facet.value)}
+              onChange={(e) => onChange(
+                e.target.checked ? [...selected, facet.value] : selected.filter((value) => value !== facet.value)
+              )}
+            />
+            <span className="truncate">{facet.value}</span>
+            <span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{facet.count}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+type SavedSearchSummary = {
+  id: string;
+  name: string;
+  query: {
+    search: string;
+    role: string[];
+    nationality: string[];
+    available: boolean;
+    superpower: string[];
+    superpowers_mode: 'any' | 'all';
+    profile: string[];
+    include_stale: boolean;
+  } & Partial<Record<RangeParam, number>>;
+  unseenCount: number;
 };
 
 function HomeContent() {
@@ -55,14 +190,20 @@ function HomeContent() {
       return {
         page: '1',
         search: '',
-        role: '',
-        nationality: '',
+        role: [] as string[],
+        nationality: [] as string[],
         available: 'false',
+        more: EMPTY_MORE_FILTERS,
+        view: 'table' as ViewMode,
+        sort: '' as TalentSort | '',
+        order: '' as SortOrder,
       };
     }
     
     const search = window.location.search;
     const params: Record<string, string> = {};
+    // Every value of repeatable filters such as role=A&role=B
+    const lists: Record<string, string[]> = {};
     
     // Handle malformed URLs with multiple ? by splitting and parsing each part
     const parts = search.split('?').filter(Boolean);
@@ -75,6 +216,7 @@ function HomeContent() {
         const decodedKey = decodeURIComponent(key.replace(/\+/g, ' '));
         const decodedValue = value ? decodeURIComponent(value.replace(/\+/g, ' ')) : '';
         if (decodedKey && decodedValue !== undefined) {
+          if (decodedValue) (lists[decodedKey] ||= []).push(decodedValue);
           // If key already exists, keep the last value (or first, depending on preference)
           // For page, we want to prioritize later occurrences in malformed URLs
           if (decodedKey === 'page' && params.page) {
@@ -94,15 +236,25 @@ function HomeContent() {
     return {
       page: params.page || '1',
       search: params.search || '',
-      role: params.role || '',
-      nationality: params.nationality || '',
+      role: lists.role || [],
+      nationality: lists.nationality || [],
       available: params.available === 'true' ? 'true' : 'false',
+      more: {
+        superpower: lists.superpower || [],
+        superpowers_mode: params.superpowers_mode === 'all' ? 'all' : 'any',
+        profile: lists.profile || [],
+        include_stale: params.include_stale === 'true',
+        ...toRangeValues((param) => params[param] || ''),
+      } as MoreFilters,
+      view: isViewMode(params.view) ? params.view : 'table',
+      sort: SORT_OPTIONS.find((option) => option.value === params.sort)?.value ?? '',
+      order: (params.order === 'asc' || params.order === 'desc' ? params.order : '') as SortOrder,
     };
   };
   
   const initialParams = parseUrlParams();
   
-  const [talents, setTalents] = useState<Talent[]>([]);
+  const [talents, setTalents] = useState<TalentListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState(initialParams.search);
   const [roleFilter, setRoleFilter] = useState(initialParams.role);
@@ -110,20 +262,34 @@ function HomeContent() {
   const [page, setPage] = useState(parseInt(initialParams.page) || 1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
-  const [roles, setRoles] = useState<string[]>([]);
-  const [nationalities, setNationalities] = useState<string[]>([]);
+  const [roles, setRoles] = useState<FacetCount[]>([]);
+  const [nationalities, setNationalities] = useState<FacetCount[]>([]);
+  const [superpowers, setSuperpowers] = useState<FacetCount[]>([]);
+  const [profileSites, setProfileSites] = useState<FacetCount[]>([]);
+  const [moreFilters, setMoreFilters] = useState<MoreFilters>(initialParams.more);
+  const [showMoreFilters, setShowMoreFilters] = useState(countMoreFilters(initialParams.more) > 0);
+  const [availableCount, setAvailableCount] = useState<number | null>(null);
   const [availableOnly, setAvailableOnly] = useState(initialParams.available === 'true');
   const [debouncedSearch, setDebouncedSearch] = useState(initialParams.search);
   const [pageInputValue, setPageInputValue] = useState(initialParams.page);
-
-  // Helper function to get initials from name
-  const getInitials = (name: string) => {
-    const parts = name.trim().split(/\s+/);
-    if (parts.length >= 2) {
-      return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+  const [exportFormat, setExportFormat] = useState('csv');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialParams.view);
+  const [sort, setSort] = useState(initialParams.sort);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(initialParams.order);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(() => {
+    if (typeof window === 'undefined') return DEFAULT_HIDDEN_COLUMNS;
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(HIDDEN_COLUMNS_STORAGE_KEY) || 'null');
+      return Array.isArray(stored) ? stored : DEFAULT_HIDDEN_COLUMNS;
+    } catch {
+      return DEFAULT_HIDDEN_COLUMNS;
     }
-    return name.substring(0, 2).toUpperCase();
-  };
+  });
+  // Talents ticked in the table for /compare, kept across pages
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchSummary[]>([]);
+  const [savedSearchesVersion, setSavedSearchesVersion] = useState(0);
+  const [savedSearchName, setSavedSearchName] = useState('');
 
   // Track if this is the initial mount to prevent premature URL updates
   const [isInitialMount, setIsInitialMount] = useState(true);
@@ -145,9 +311,13 @@ function HomeContent() {
       setPageInputValue(parsedPage.toString());
     }
     if (urlSearch !== search) setSearch(urlSearch);
-    if (urlRole !== roleFilter) setRoleFilter(urlRole);
-    if (urlNationality !== nationalityFilter) setNationalityFilter(urlNationality);
+    if (!sameValues(urlRole, roleFilter)) setRoleFilter(urlRole);
+    if (!sameValues(urlNationality, nationalityFilter)) setNationalityFilter(urlNationality);
+    if (moreFiltersKey(parsedParams.more) !== moreFiltersKey(moreFilters)) setMoreFilters(parsedParams.more);
     if (urlAvailable !== availableOnly) setAvailableOnly(urlAvailable);
+    if (parsedParams.view !== viewMode) setViewMode(parsedParams.view);
+    if (parsedParams.sort !== sort) setSort(parsedParams.sort);
+    if (parsedParams.order !== sortOrder) setSortOrder(parsedParams.order);
     
     // Mark initial mount as complete after first render
     if (isInitialMount) {
@@ -170,9 +340,13 @@ function HomeContent() {
     
     const params = new URLSearchParams();
     if (debouncedSearch) params.set('search', debouncedSearch);
-    if (roleFilter) params.set('role', roleFilter);
-    if (nationalityFilter) params.set('nationality', nationalityFilter);
+    roleFilter.forEach((role) => params.append('role', role));
+    nationalityFilter.forEach((nationality) => params.append('nationality', nationality));
     if (availableOnly) params.set('available', 'true');
+    appendMoreFilters(params, moreFilters);
+    if (viewMode !== 'table') params.set('view', viewMode);
+    if (sort) params.set('sort', sort);
+    if (sortOrder) params.set('order', sortOrder);
     // Always include page parameter if it's greater than 1
     if (page > 1) {
       params.set('page', page.toString());
@@ -186,9 +360,13 @@ function HomeContent() {
     const currentParams = parseUrlParams();
     const normalizedCurrentParams = new URLSearchParams();
     if (currentParams.search) normalizedCurrentParams.set('search', currentParams.search);
-    if (currentParams.role) normalizedCurrentParams.set('role', currentParams.role);
-    if (currentParams.nationality) normalizedCurrentParams.set('nationality', currentParams.nationality);
+    currentParams.role.forEach((role) => normalizedCurrentParams.append('role', role));
+    currentParams.nationality.forEach((nationality) => normalizedCurrentParams.append('nationality', nationality));
     if (currentParams.available === 'true') normalizedCurrentParams.set('available', 'true');
+    appendMoreFilters(normalizedCurrentParams, currentParams.more);
+    if (currentParams.view !== 'table') normalizedCurrentParams.set('view', currentParams.view);
+    if (currentParams.sort) normalizedCurrentParams.set('sort', currentParams.sort);
+    if (currentParams.order) normalizedCurrentParams.set('order', currentParams.order);
     // Always include page if it's in the current URL and > 1, to compare properly
     const currentPage = parseInt(currentParams.page) || 1;
     if (currentPage > 1) {
@@ -200,7 +378,12 @@ function HomeContent() {
     if (normalizedCurrentSearchStr !== newSearch) {
       router.replace(newUrl, { scroll: false });
     }
-  }, [debouncedSearch, roleFilter, nationalityFilter, availableOnly, page, router, isInitialMount]);
+  }, [debouncedSearch, roleFilter, nationalityFilter, availableOnly, moreFilters, viewMode, sort, sortOrder, page, router, isInitialMount]);
+
+  // Remember which table columns are hidden across visits
+  useEffect(() => {
+    window.localStorage.setItem(HIDDEN_COLUMNS_STORAGE_KEY, JSON.stringify(hiddenColumns));
+  }, [hiddenColumns]);
 
   // Track if search was triggered by user (Enter key) vs debounce
   const [isSearchTriggered, setIsSearchTriggered] = useState(false);
@@ -226,27 +409,27 @@ function HomeContent() {
     const fetchTalents = async () => {
       setLoading(true);
       try {
-        const params = new URLSearchParams({
-          page: page.toString(),
-          limit: '20',
+        const data = await apiClient.listTalents({
+          page,
+          limit: 20,
+          search: debouncedSearch,
+          role: roleFilter,
+          nationality: nationalityFilter,
+          available: availableOnly || undefined,
+          ...toMoreFiltersQuery(moreFilters),
+          ...(sort ? { sort, order: sortOrder || undefined } : {}),
         });
-        if (debouncedSearch) params.append('search', debouncedSearch);
-        if (roleFilter) params.append('role', roleFilter);
-        if (nationalityFilter) params.append('nationality', nationalityFilter);
-        if (availableOnly) params.append('available', 'true');
+        // Only `ids` lookups answer without pagination
+        if (!('pagination' in data)) return;
 
-        const response = await fetch(`/api/talent?${params}`);
-        const data = await response.json();
-        
-        setTalents(data.talents || []);
-        setTotalPages(data.pagination?.totalPages || 1);
-        setTotal(data.pagination?.total || 0);
-        if (data.filters?.roles) {
-          setRoles(data.filters.roles);
-        }
-        if (data.filters?.nationalities) {
-          setNationalities(data.filters.nationalities);
-        }
+        setTalents(data.talents);
+        setTotalPages('totalPages' in data.pagination ? data.pagination.totalPages || 1 : 1);
+        setTotal(data.pagination.total);
+        setRoles(data.filters.roles);
+        setNationalities(data.filters.nationalities);
+        setSuperpowers(data.filters.superpowers);
+        setProfileSites(data.filters.profiles);
+        setAvailableCount(data.filters.availability.available);
       } catch (error) {
         console.error('Error fetching talents:', error);
       } finally {
@@ -255,94 +438,569 @@ function HomeContent() {
     };
 
     fetchTalents();
-  }, [page, debouncedSearch, roleFilter, nationalityFilter, availableOnly]);
-
-  const getRoleColor = (color: string) => {
-    const colorMap: Record<string, string> = {
-      'violet': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      'green': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'blue': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'teal': 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
-      'orange': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  }, [page, debouncedSearch, roleFilter, nationalityFilter, availableOnly, moreFilters, sort, sortOrder]);
+
+  // Fetch saved searches with their unseen match counts
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      try {
+        const response = await fetch('/api/saved-searches');
+        const data = await response.json();
+        setSavedSearches(data.savedSearches || []);
+      } catch (error) {
+        console.error('Error fetching saved searches:', error);
+      }
     };
-    return colorMap[color] || 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
+
+    fetchSavedSearches();
+  }, [savedSearchesVersion]);
+
+  const saveCurrentSearch = async () => {
+    try {
+      await fetchWithApiKey('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: savedSearchName,
+          search: debouncedSearch,
+          role: roleFilter,
+          nationality: nationalityFilter,
+          available: availableOnly,
+          ...moreFilters,
+        }),
+      });
+      setSavedSearchName('');
+      setSavedSearchesVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Error saving search:', error);
+    }
   };
 
-  const TableView = () => (
-    <div className="overflow-x-auto">
-      <table className="w-full border-collapse">
-        <thead>
-          <tr className="border-b border-gray-200 dark:border-gray-700">
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Name</th>
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Socials</th>
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Title</th>
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Role</th>
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Location</th>
-            <th className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300">Jobs</th>
-          </tr>
-        </thead>
-        <tbody>
-          {talents.map((talent) => (
-            <tr key={talent.id} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800">
-              <td className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="relative">
-                    {talent.user.avatar_thumbnail ? (
-                      <Image
-                        src={talent.user.avatar_thumbnail}
-                        alt={talent.user.public_name}
-                        width={40}
-                        height={40}
-                        className={`rounded-full ${talent.availability_for_work ? 'ring-2 ring-green-500' : ''}`}
-                      />
-                    ) : (
-                      <div
-                        className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-semibold text-white bg-gradient-to-br from-blue-500 to-purple-600 ${talent.availability_for_work ? 'ring-2 ring-green-500' : ''}`}
-                      >
-                        {getInitials(talent.user.public_name)}
-                      </div>
-                    )}
-                  </div>
-                  <a
-                    href={`https://app.usebraintrust.com/talent/${talent.id}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
-                  >
-                    {talent.user.public_name}
-                  </a>
-                </div>
-              </td>
-              <td className="p-4">
-                <div className="flex items-center gap-2">
-                  {talent.external_profiles.map((profile) => (
-                    <a href={profile.public_url} target="_blank" rel="noopener noreferrer" key={profile.id}>
-                      <Image src={profile.site.logo.thumbnail} alt={profile.site.name} width={20} height={20} className="rounded-full bg-white" />
-                    </a>
-                  ))}
-                </div>
-              </td>
-              <td className="p-4 text-gray-600 dark:text-gray-400">{talent.user.introduction_headline}</td>
-              <td className="p-4">
-                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(talent.role.color)}`}>
-                  {talent.role.name}
-                </span>
-              </td>
-              <td className="p-4 text-gray-600 dark:text-gray-400">{talent.location}</td>
-              <td className="p-4 text-gray-600 dark:text-gray-400">{talent.total_jobs || 0}</td>
-            </tr>
+  const applySavedSearch = (savedSearch: SavedSearchSummary) => {
+    setSearch(savedSearch.query.search);
+    setDebouncedSearch(savedSearch.query.search);
+    setRoleFilter(savedSearch.query.role);
+    setNationalityFilter(savedSearch.query.nationality);
+    setAvailableOnly(savedSearch.query.available);
+    setMoreFilters({
+      superpower: savedSearch.query.superpower,
+      superpowers_mode: savedSearch.query.superpowers_mode,
+      profile: savedSearch.query.profile,
+      include_stale: savedSearch.query.include_stale,
+      ...toRangeValues((param) => savedSearch.query[param]?.toString() ?? ''),
+    });
+    setPage(1);
+  };
+
+  const updateSavedSearch = async (url: string, method: 'POST' | 'DELETE') => {
+    try {
+      await fetchWithApiKey(url, { method });
+      setSavedSearchesVersion((v) => v + 1);
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+    }
+  };
+
+  // Save an inline edit of a talent's stage or tags
+  const updateAnnotation = async (talentId: number, update: Partial<Annotation>) => {
+    try {
+      const response = await fetchWithApiKey(`/api/talent/${talentId}/annotations`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setTalents((current) => current.map((talent) => (
+        talent.id === talentId ? { ...talent, annotation: data.annotation } : talent
+      )));
+    } catch (error) {
+      console.error('Error updating annotation:', error);
+    }
+  };
+
+  const changeSort = (value: TalentSort | '', order: SortOrder = '') => {
+    setSort(value);
+    setSortOrder(order);
+    setPage(1);
+  };
+
+  // Clicking the sorted column's header flips the direction
+  const toggleSort = (value: TalentSort) => {
+    if (value !== sort) {
+      changeSort(value);
+      return;
+    }
+    changeSort(value, (sortOrder || defaultSortOrder(value)) === 'asc' ? 'desc' : 'asc');
+  };
+
+  const toggleColumn = (id: string) => {
+    setHiddenColumns((current) => (
+      current.includes(id) ? current.filter((column) => column !== id) : [...current, id]
+    ));
+  };
+
+  const toggleCompare = (id: number) => {
+    setCompareIds((current) => (
+      current.includes(id) ? current.filter((talentId) => talentId !== id) : [...current, id]
+    ));
+  };
+
+  // The current filters, for links to the export and analytics
+  const getFilterParams = () => {
+    const params = new URLSearchParams();
+    if (debouncedSearch) params.append('search', debouncedSearch);
+    roleFilter.forEach((role) => params.append('role', role));
+    nationalityFilter.forEach((nationality) => params.append('nationality', nationality));
+    if (availableOnly) params.append('available', 'true');
+    return appendMoreFilters(params, moreFilters);
+  };
+
+  // Export the current filtered view (all pages)
+  const getExportParams = () => {
+    const params = getFilterParams();
+    params.set('format', exportFormat);
+    appendSortParams(params, sort, sortOrder);
+    return params.toString();
+  };
+
+  // Facets only list values with results; keep the current selection visible anyway
+  const withSelected = (facets: FacetCount[], selected: string[]) => [
+    ...selected
+      .filter((value) => !facets.some((facet) => facet.value === value))
+      .map((value) => ({ value, count: 0 })),
+    ...facets,
+  ];
+
+  const updateMoreFilters = (update: Partial<MoreFilters>) => {
+    setMoreFilters((current) => ({ ...current, ...update }));
+    setPage(1);
+  };
+
+  const clearMoreFilters = () => {
+    setRoleFilter([]);
+    setNationalityFilter([]);
+    setMoreFilters(EMPTY_MORE_FILTERS);
+    setPage(1);
+  };
+
+  // Avatar with a green ring when the talent is available for work
+  const TalentAvatar = ({ talent, size }: { talent: TalentListItem; size: number }) => (
+    <div className="relative shrink-0">
+      {talent.user.avatar_thumbnail ? (
+        <Image
+          src={talent.user.avatar_thumbnail}
+          alt={talent.user.public_name}
+          width={size}
+          height={size}
+          className={`rounded-full ${talent.availability_for_work ? 'ring-2 ring-green-500' : ''}`}
+        />
+      ) : (
+        <div
+          style={{ width: size, height: size }}
+          className={`rounded-full flex items-center justify-center text-sm font-semibold text-white bg-gradient-to-br from-blue-500 to-purple-600 ${talent.availability_for_work ? 'ring-2 ring-green-500' : ''}`}
+        >
+          {getInitials(talent.user.public_name)}
+        </div>
+      )}
+    </div>
+  );
+
+  const ProfileIcons = ({ talent }: { talent: TalentListItem }) => (
+    <div className="flex items-center gap-2">
+      {(talent.external_profiles || []).map((profile) => (
+        <a href={profile.public_url} target="_blank" rel="noopener noreferrer" key={profile.id}>
+          <Image src={profile.site.logo.thumbnail} alt={profile.site.name} width={20} height={20} className="rounded-full bg-white" />
+        </a>
+      ))}
+    </div>
+  );
+
+  // Search match snippets, except the headline which is shown anyway
+  const Highlights = ({ talent }: { talent: TalentListItem }) => (
+    <>
+      {talent.highlights
+        ?.filter((highlight) => highlight.field !== 'user.introduction_headline')
+        .slice(0, 2)
+        .map((highlight) => (
+          <p key={highlight.field} className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {highlight.fragments.map((fragment, i) => (
+              fragment.match ? (
+                <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">{fragment.text}</mark>
+              ) : (
+                <span key={i}>{fragment.text}</span>
+              )
+            ))}
+          </p>
+        ))}
+    </>
+  );
+
+  const TalentName = ({ talent }: { talent: TalentListItem }) => (
+    <Link
+      href={`/talent/${talent.id}`}
+      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+    >
+      {talent.user.public_name}
+    </Link>
+  );
+
+  // When a scrape last listed the talent, flagged once a full scrape no longer does
+  const LastSeen = ({ talent }: { talent: TalentListItem }) => (
+    <span className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+      {talent.lastSeenAt ? new Date(talent.lastSeenAt).toLocaleDateString() : '–'}
+      {talent.stale && (
+        <span
+          title="No longer returned by a full scrape of its query"
+          className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+        >
+          Stale
+        </span>
+      )}
+    </span>
+  );
+
+  const RoleBadge = ({ talent }: { talent: TalentListItem }) => (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(talent.role.color)}`}>
+      {talent.role.name}
+    </span>
+  );
+
+  // The Name column is always shown; the others can be hidden from the Columns menu
+  const tableColumns: TableColumn[] = [
+    {
+      id: 'name',
+      label: 'Name',
+      sort: 'name',
+      render: (talent) => (
+        <div className="flex items-center gap-3">
+          <TalentAvatar talent={talent} size={40} />
+          <TalentName talent={talent} />
+        </div>
+      ),
+    },
+    { id: 'socials', label: 'Socials', render: (talent) => <ProfileIcons talent={talent} /> },
+    {
+      id: 'title',
+      label: 'Title',
+      render: (talent) => (
+        <div className="text-gray-600 dark:text-gray-400">
+          {talent.user.introduction_headline}
+          <Highlights talent={talent} />
+        </div>
+      ),
+    },
+    { id: 'role', label: 'Role', render: (talent) => <RoleBadge talent={talent} /> },
+    {
+      id: 'location',
+      label: 'Location',
+      render: (talent) => <span className="text-gray-600 dark:text-gray-400">{talent.location}</span>,
+    },
+    {
+      id: 'country',
+      label: 'Country',
+      render: (talent) => <span className="text-gray-600 dark:text-gray-400">{talent.country}</span>,
+    },
+    {
+      id: 'jobs',
+      label: 'Jobs',
+      sort: 'total_jobs',
+      render: (talent) => <span className="text-gray-600 dark:text-gray-400">{talent.total_jobs || 0}</span>,
+    },
+    {
+      id: 'rating',
+      label: 'Rating',
+      sort: 'average_rating',
+      render: (talent) => (
+        <span className="text-gray-600 dark:text-gray-400">
+          {talent.average_rating ? `★ ${Number(talent.average_rating).toFixed(1)}` : '–'}
+        </span>
+      ),
+    },
+    {
+      id: 'reviews',
+      label: 'Reviews',
+      sort: 'review_count',
+      render: (talent) => <span className="text-gray-600 dark:text-gray-400">{talent.review_count || 0}</span>,
+    },
+    {
+      id: 'availability',
+      label: 'Availability',
+      render: (talent) => (
+        talent.availability_for_work ? (
+          <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+            Available
+          </span>
+        ) : (
+          <span className="text-gray-400 dark:text-gray-500">–</span>
+        )
+      ),
+    },
+    {
+      id: 'updatedAt',
+      label: 'Last updated',
+      sort: 'updatedAt',
+      render: (talent) => (
+        <span className="text-gray-600 dark:text-gray-400 whitespace-nowrap">
+          {talent.updatedAt ? new Date(talent.updatedAt).toLocaleDateString() : '–'}
+        </span>
+      ),
+    },
+    { id: 'lastSeen', label: 'Last seen', render: (talent) => <LastSeen talent={talent} /> },
+    {
+      id: 'stage',
+      label: 'Stage',
+      render: (talent) => (
+        <select
+          value={talent.annotation?.stage || 'new'}
+          onChange={(e) => updateAnnotation(talent.id, { stage: e.target.value as PipelineStage })}
+          aria-label={`Pipeline stage of ${talent.user.public_name}`}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+        >
+          {PIPELINE_STAGES.map((stage) => (
+            <option key={stage} value={stage}>
+              {stage.charAt(0).toUpperCase() + stage.slice(1)}
+            </option>
           ))}
-        </tbody>
-      </table>
+        </select>
+      ),
+    },
+    {
+      id: 'tags',
+      label: 'Tags',
+      render: (talent) => (
+        <div className="flex flex-wrap items-center gap-1">
+          {(talent.annotation?.tags || []).map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+            >
+              {tag}
+              <button
+                onClick={() => updateAnnotation(talent.id, { tags: (talent.annotation?.tags || []).filter((t) => t !== tag) })}
+                aria-label={`Remove tag ${tag}`}
+                className="text-gray-400 hover:text-red-600"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {/* Uncontrolled, so typing does not re-render the table */}
+          <input
+            type="text"
+            placeholder="+ tag"
+            aria-label={`Add tag to ${talent.user.public_name}`}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              const tag = e.currentTarget.value.trim();
+              const tags = talent.annotation?.tags || [];
+              if (tag && !tags.includes(tag)) {
+                updateAnnotation(talent.id, { tags: [...tags, tag] });
+              }
+              e.currentTarget.value = '';
+            }}
+            className="w-16 px-1 py-0.5 text-xs bg-transparent border-b border-dashed border-gray-300 dark:border-gray-600 dark:text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+      ),
+    },
+  ];
+
+  const TableView = () => {
+    const columns = tableColumns.filter((column) => column.id === 'name' || !hiddenColumns.includes(column.id));
+    const currentOrder = sortOrder || defaultSortOrder(sort);
+
+    return (
+      <div className="overflow-x-auto">
+        {compareIds.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-3 p-3 rounded-lg bg-blue-50 dark:bg-blue-950 text-sm text-gray-700 dark:text-gray-300">
+            <span>
+              {compareIds.length} selected
+              {compareIds.length < MIN_COMPARED_TALENTS && ` (pick ${MIN_COMPARED_TALENTS}–${MAX_COMPARED_TALENTS} to compare)`}
+            </span>
+            {compareIds.length >= MIN_COMPARED_TALENTS && (
+              <Link
+                href={`/compare?ids=${compareIds.join(',')}`}
+                className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+              >
+                Compare
+              </Link>
+            )}
+            <button onClick={() => setCompareIds([])} className="text-blue-600 dark:text-blue-400 hover:underline">
+              Clear
+            </button>
+          </div>
+        )}
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="p-4 w-px">
+                <span className="sr-only">Compare</span>
+              </th>
+              {columns.map((column) => (
+                <th
+                  key={column.id}
+                  aria-sort={column.sort && column.sort === sort ? (currentOrder === 'asc' ? 'ascending' : 'descending') : undefined}
+                  className="text-left p-4 font-semibold text-gray-700 dark:text-gray-300"
+                >
+                  {column.sort ? (
+                    <button
+                      onClick={() => toggleSort(column.sort!)}
+                      className="inline-flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      {column.label}
+                      {column.sort === sort && <span className="text-xs">{currentOrder === 'asc' ? '▲' : '▼'}</span>}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {talents.map((talent) => (
+              <tr key={talent.id} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800">
+                <td className="p-4">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(talent.id)}
+                    disabled={!compareIds.includes(talent.id) && compareIds.length >= MAX_COMPARED_TALENTS}
+                    onChange={() => toggleCompare(talent.id)}
+                    aria-label={`Compare ${talent.user.public_name}`}
+                    title={compareIds.length >= MAX_COMPARED_TALENTS ? `Compare up to ${MAX_COMPARED_TALENTS} talents` : undefined}
+                  />
+                </td>
+                {columns.map((column) => (
+                  <td key={column.id} className="p-4">{column.render(talent)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const ListView = () => (
+    <div className="space-y-4">
+      {talents.map((talent) => (
+        <div key={talent.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 flex gap-4">
+          <TalentAvatar talent={talent} size={56} />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <TalentName talent={talent} />
+              <RoleBadge talent={talent} />
+              {talent.location && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">{talent.location}</span>
+              )}
+            </div>
+            {talent.user.introduction_headline && (
+              <p className="font-medium text-gray-800 dark:text-gray-200 mb-1">{talent.user.introduction_headline}</p>
+            )}
+            <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">
+              {talent.user.introduction || 'No introduction provided.'}
+            </p>
+            <Highlights talent={talent} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const GridView = () => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+      {talents.map((talent) => (
+        <div key={talent.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 flex flex-col items-center text-center gap-2">
+          <TalentAvatar talent={talent} size={64} />
+          <TalentName talent={talent} />
+          <RoleBadge talent={talent} />
+          <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+            {talent.user.introduction_headline || talent.user.title}
+          </p>
+          {talent.location && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{talent.location}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const CardView = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {talents.map((talent) => (
+        <div key={talent.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 flex flex-col gap-3">
+          <div className="flex items-start gap-3">
+            <TalentAvatar talent={talent} size={56} />
+            <div className="flex-1 min-w-0">
+              <TalentName talent={talent} />
+              {talent.location && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">{talent.location}</p>
+              )}
+              {(talent.lastSeenAt || talent.stale) && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Last seen <LastSeen talent={talent} />
+                </p>
+              )}
+            </div>
+            {talent.availability_for_work ? (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                Available
+              </span>
+            ) : (
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                Unavailable
+              </span>
+            )}
+          </div>
+          <div>
+            <RoleBadge talent={talent} />
+          </div>
+          {talent.user.introduction_headline && (
+            <p className="text-gray-700 dark:text-gray-300">{talent.user.introduction_headline}</p>
+          )}
+          <Highlights talent={talent} />
+          {(talent.superpowers || []).length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {(talent.superpowers || []).map((superpower) => (
+                <span
+                  key={superpower.id}
+                  className="px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+                >
+                  {superpower.name}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="mt-auto flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              {talent.average_rating ? `★ ${Number(talent.average_rating).toFixed(1)}` : 'No rating'}
+              {talent.review_count ? ` (${talent.review_count} reviews)` : ''}
+              {` · ${talent.total_jobs || 0} jobs`}
+            </span>
+            <ProfileIcons talent={talent} />
+          </div>
+        </div>
+      ))}
     </div>
   );
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold mb-2 text-gray-900 dark:text-white">Braintrust Talents</h1>
-          <p className="text-gray-600 dark:text-gray-400">Browse and search through talented professionals</p>
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 text-gray-900 dark:text-white">Braintrust Talents</h1>
+            <p className="text-gray-600 dark:text-gray-400">Browse and search through talented professionals</p>
+          </div>
+          <Link
+            href={`/analytics?${getFilterParams()}`}
+            className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Analytics
+          </Link>
         </div>
 
         {/* Search and Filters */}
@@ -351,7 +1009,7 @@ function HomeContent() {
             <div className="flex-1">
               <input
                 type="text"
-                placeholder="Search by name, introduction, or headline..."
+                placeholder='Search by name, title, headline, introduction or superpower ("exact phrase", -exclude)...'
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
                 onKeyDown={(e) => {
@@ -364,33 +1022,36 @@ function HomeContent() {
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
               />
             </div>
+            {/* Several roles or countries are picked under More filters */}
             <select
-              value={roleFilter}
+              value={roleFilter.length > 1 ? MULTIPLE_VALUE : roleFilter[0] || ''}
               onChange={(e) => {
-                setRoleFilter(e.target.value);
+                setRoleFilter(e.target.value ? [e.target.value] : []);
                 setPage(1);
               }}
               className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
             >
               <option value="">All Roles</option>
-              {roles.map((role) => (
-                <option key={role} value={role}>
-                  {role}
+              {roleFilter.length > 1 && <option value={MULTIPLE_VALUE} disabled>{roleFilter.length} roles</option>}
+              {withSelected(roles, roleFilter).map((role) => (
+                <option key={role.value} value={role.value}>
+                  {role.value} ({role.count})
                 </option>
               ))}
             </select>
             <select
-              value={nationalityFilter}
+              value={nationalityFilter.length > 1 ? MULTIPLE_VALUE : nationalityFilter[0] || ''}
               onChange={(e) => {
-                setNationalityFilter(e.target.value);
+                setNationalityFilter(e.target.value ? [e.target.value] : []);
                 setPage(1);
               }}
               className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
             >
               <option value="">All Nationalities</option>
-              {nationalities.map((nationality) => (
-                <option key={nationality} value={nationality}>
-                  {nationality}
+              {nationalityFilter.length > 1 && <option value={MULTIPLE_VALUE} disabled>{nationalityFilter.length} countries</option>}
+              {withSelected(nationalities, nationalityFilter).map((nationality) => (
+                <option key={nationality.value} value={nationality.value}>
+                  {nationality.value} ({nationality.count})
                 </option>
               ))}
             </select>
@@ -404,11 +1065,236 @@ function HomeContent() {
                 }}
                 className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
               />
-              <span className="text-sm text-gray-700 dark:text-gray-300">Available Only</span>
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                Available Only{availableCount !== null ? ` (${availableCount})` : ''}
+              </span>
             </label>
+            <button
+              onClick={() => setShowMoreFilters((show) => !show)}
+              aria-expanded={showMoreFilters}
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              More filters{countMoreFilters(moreFilters) > 0 ? ` (${countMoreFilters(moreFilters)})` : ''} {showMoreFilters ? '▴' : '▾'}
+            </button>
           </div>
-          <div className="text-sm text-gray-600 dark:text-gray-400">
-            Showing {talents.length} of {total} talents
+          {showMoreFilters && (
+            <div className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+              <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+                <FacetCheckboxes
+                  label="Roles"
+                  facets={withSelected(roles, roleFilter)}
+                  selected={roleFilter}
+                  onChange={(selected) => {
+                    setRoleFilter(selected);
+                    setPage(1);
+                  }}
+                />
+                <FacetCheckboxes
+                  label="Countries"
+                  facets={withSelected(nationalities, nationalityFilter)}
+                  selected={nationalityFilter}
+                  onChange={(selected) => {
+                    setNationalityFilter(selected);
+                    setPage(1);
+                  }}
+                />
+                <div>
+                  <FacetCheckboxes
+                    label="Superpowers"
+                    facets={withSelected(superpowers, moreFilters.superpower)}
+                    selected={moreFilters.superpower}
+                    onChange={(selected) => updateMoreFilters({ superpower: selected })}
+                  />
+                  <div className="mt-2 flex gap-3 text-sm text-gray-700 dark:text-gray-300" role="radiogroup" aria-label="Superpower matching">
+                    {(['any', 'all'] as const).map((mode) => (
+                      <label key={mode} className="flex items-center gap-1">
+                        <input
+                          type="radio"
+                          name="superpowers_mode"
+                          checked={moreFilters.superpowers_mode === mode}
+                          onChange={() => updateMoreFilters({ superpowers_mode: mode })}
+                        />
+                        {mode === 'any' ? 'Any of these' : 'All of these'}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <FacetCheckboxes
+                  label="Has profile on"
+                  facets={withSelected(profileSites, moreFilters.profile)}
+                  selected={moreFilters.profile}
+                  onChange={(selected) => updateMoreFilters({ profile: selected })}
+                />
+              </div>
+              <div className="mt-6 flex flex-wrap items-end gap-6">
+                {RANGE_FILTERS.map(({ field, label, step }) => (
+                  <fieldset key={field}>
+                    <legend className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{label}</legend>
+                    <div className="flex items-center gap-2">
+                      {(['min', 'max'] as const).map((bound) => (
+                        <input
+                          key={bound}
+                          type="number"
+                          min={0}
+                          step={step}
+                          placeholder={bound === 'min' ? 'Min' : 'Max'}
+                          aria-label={`${label} ${bound}`}
+                          value={moreFilters[`${field}_${bound}`]}
+                          onChange={(e) => updateMoreFilters({ [`${field}_${bound}`]: e.target.value })}
+                          className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                        />
+                      ))}
+                    </div>
+                  </fieldset>
+                ))}
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={moreFilters.include_stale}
+                    onChange={(e) => updateMoreFilters({ include_stale: e.target.checked })}
+                  />
+                  Include stale talents
+                </label>
+                <button
+                  onClick={clearMoreFilters}
+                  className="ml-auto px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-red-600"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {savedSearches.map((savedSearch) => (
+              <div
+                key={savedSearch.id}
+                className="flex items-center gap-1 pl-3 pr-1 py-1 border border-gray-300 dark:border-gray-600 rounded-full"
+              >
+                <button
+                  onClick={() => applySavedSearch(savedSearch)}
+                  className="text-sm text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  {savedSearch.name}
+                </button>
+                {savedSearch.unseenCount > 0 && (
+                  <>
+                    <span
+                      title="Talents added or changed since you last marked this search seen"
+                      className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-500 text-white"
+                    >
+                      {savedSearch.unseenCount} new
+                    </span>
+                    <button
+                      onClick={() => updateSavedSearch(`/api/saved-searches/${savedSearch.id}/seen`, 'POST')}
+                      className="px-1 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      Mark all seen
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => updateSavedSearch(`/api/saved-searches/${savedSearch.id}`, 'DELETE')}
+                  aria-label={`Delete saved search ${savedSearch.name}`}
+                  className="px-1.5 text-gray-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <input
+              type="text"
+              placeholder="Name this search"
+              value={savedSearchName}
+              onChange={(e) => setSavedSearchName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && savedSearchName.trim()) saveCurrentSearch();
+              }}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            />
+            <button
+              onClick={saveCurrentSearch}
+              disabled={!savedSearchName.trim()}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Save search
+            </button>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Showing {talents.length} of {total} talents
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="View mode">
+                {VIEW_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setViewMode(mode.value)}
+                    aria-pressed={viewMode === mode.value}
+                    className={`px-3 py-1.5 text-sm ${viewMode === mode.value
+                      ? 'bg-blue-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={sort}
+                onChange={(e) => changeSort(e.target.value as TalentSort | '')}
+                aria-label="Sort by"
+                className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {sort && (
+                <button
+                  onClick={() => toggleSort(sort)}
+                  aria-label="Reverse sort order"
+                  className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  {(sortOrder || defaultSortOrder(sort)) === 'asc' ? '▲' : '▼'}
+                </button>
+              )}
+              {viewMode === 'table' && (
+                <details className="relative">
+                  <summary className="list-none cursor-pointer px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+                    Columns
+                  </summary>
+                  <div className="absolute right-0 z-10 mt-1 w-44 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+                    {tableColumns.filter((column) => column.id !== 'name').map((column) => (
+                      <label key={column.id} className="flex items-center gap-2 px-2 py-1 text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={!hiddenColumns.includes(column.id)}
+                          onChange={() => toggleColumn(column.id)}
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                </details>
+              )}
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value)}
+                className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+                <option value="ndjson">NDJSON</option>
+              </select>
+              <a
+                href={`/api/talent/export?${getExportParams()}`}
+                download
+                className="px-4 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Export
+              </a>
+            </div>
           </div>
         </div>
 
@@ -423,7 +1309,7 @@ function HomeContent() {
           </div>
         ) : (
           <>
-            <TableView />
+            {viewMode === 'list' ? <ListView /> : viewMode === 'grid' ? <GridView /> : viewMode === 'card' ? <CardView /> : <TableView />}
 
             {/* Pagination */}
             <div className="mt-8 flex justify-center items-center gap-2">
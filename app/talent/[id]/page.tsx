@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import type { Talent } from '@/lib/talent';
+import { getInitials, getRoleColor } from '@/lib/talent-display';
+import { fetchWithApiKey } from '@/lib/browser-api-key';
+
+export default function TalentPage() {
+  const params = useParams<{ id: string }>();
+  const [talent, setTalent] = useState<Talent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [savedNotes, setSavedNotes] = useState('');
+  const [stage, setStage] = useState('new');
+  const [tags, setTags] = useState<string[]>([]);
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  // Fetch the stored talent document
+  useEffect(() => {
+    const fetchTalent = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/talent/${params.id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load talent');
+          setTalent(null);
+          return;
+        }
+
+        setTalent(data.talent);
+      } catch (error) {
+        console.error('Error fetching talent:', error);
+        setError('Failed to load talent');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTalent();
+  }, [params.id]);
+
+  // Fetch the team's notes, tags and stage
+  useEffect(() => {
+    const fetchAnnotation = async () => {
+      try {
+        const response = await fetch(`/api/talent/${params.id}/annotations`);
+        const data = await response.json();
+        if (!response.ok) return;
+
+        setNotes(data.annotation.notes);
+        setSavedNotes(data.annotation.notes);
+        setStage(data.annotation.stage);
+        setTags(data.annotation.tags);
+      } catch (error) {
+        console.error('Error fetching annotation:', error);
+      }
+    };
+
+    fetchAnnotation();
+  }, [params.id]);
+
+  const saveNotes = async () => {
+    setSavingNotes(true);
+    try {
+      const response = await fetchWithApiKey(`/api/talent/${params.id}/annotations`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setSavedNotes(data.annotation.notes);
+    } catch (error) {
+      console.error('Error saving notes:', error);
+    } finally {
+      setSavingNotes(false);
+    }
+  };
+
+  const formatValue = (value: number | string | number[] | undefined | null) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    return value.toString();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Back to talents
+        </Link>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error || !talent ? (
+          <div className="text-center py-20">
+            <p className="text-gray-500 dark:text-gray-400 text-lg">{error || 'Talent not found'}</p>
+          </div>
+        ) : (
+          <div className="mt-6 space-y-6">
+            {/* Header */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 flex flex-col md:flex-row md:items-center gap-6">
+              {talent.user.avatar || talent.user.avatar_thumbnail ? (
+                <Image
+                  src={(talent.user.avatar || talent.user.avatar_thumbnail) as string}
+                  alt={talent.user.public_name}
+                  width={96}
+                  height={96}
+                  className={`rounded-full ${talent.availability_for_work ? 'ring-4 ring-green-500' : ''}`}
+                />
+              ) : (
+                <div
+                  className={`w-24 h-24 rounded-full flex items-center justify-center text-2xl font-semibold text-white bg-gradient-to-br from-blue-500 to-purple-600 ${talent.availability_for_work ? 'ring-4 ring-green-500' : ''}`}
+                >
+                  {getInitials(talent.user.public_name)}
+                </div>
+              )}
+              <div className="flex-1">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{talent.user.public_name}</h1>
+                {talent.user.title && (
+                  <p className="text-gray-600 dark:text-gray-400">{talent.user.title}</p>
+                )}
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getRoleColor(talent.role.color)}`}>
+                    {talent.role.name}
+                  </span>
+                  {talent.location && (
+                    <span className="text-sm text-gray-600 dark:text-gray-400">{talent.location}</span>
+                  )}
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${talent.availability_for_work ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'}`}
+                  >
+                    {talent.availability_for_work ? 'Available for work' : 'Not available'}
+                  </span>
+                </div>
+              </div>
+              <a
+                href={`https://app.usebraintrust.com/talent/${talent.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                View on Braintrust
+              </a>
+            </div>
+
+            {/* Introduction */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">Introduction</h2>
+              {talent.user.introduction_headline && (
+                <p className="font-medium text-gray-800 dark:text-gray-200 mb-2">{talent.user.introduction_headline}</p>
+              )}
+              <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">
+                {talent.user.introduction || 'No introduction provided.'}
+              </p>
+            </div>
+
+            {/* Superpowers */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">Superpowers</h2>
+              {talent.superpowers && talent.superpowers.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {talent.superpowers.map((superpower) => (
+                    <span
+                      key={superpower.id}
+                      className="px-3 py-1 rounded-full text-sm bg-blue-50 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                    >
+                      {superpower.name}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">No superpowers listed.</p>
+              )}
+            </div>
+
+            {/* External profiles */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">External Profiles</h2>
+              {talent.external_profiles && talent.external_profiles.length > 0 ? (
+                <ul className="space-y-2">
+                  {talent.external_profiles.map((profile) => (
+                    <li key={profile.id} className="flex items-center gap-3">
+                      <Image src={profile.site.logo.thumbnail} alt={profile.site.name} width={20} height={20} className="rounded-full bg-white" />
+                      <span className="w-28 text-gray-700 dark:text-gray-300">{profile.site.name}</span>
+                      <a
+                        href={profile.public_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+                      >
+                        {profile.public_url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-500 dark:text-gray-400">No external profiles.</p>
+              )}
+            </div>
+
+            {/* Stats */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">Details</h2>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                {[
+                  { label: 'Average rating', value: formatValue(talent.average_rating) },
+                  { label: 'Reviews', value: formatValue(talent.review_count) },
+                  { label: 'Total jobs', value: formatValue(talent.total_jobs) },
+                  { label: 'Country', value: formatValue(talent.country) },
+                  { label: 'Personal rank', value: formatValue(talent.personal_rank) },
+                  { label: 'Search score', value: formatValue(talent.search_score) },
+                  { label: 'Matching skills', value: talent.matching_skills_percent !== undefined && talent.matching_skills_percent !== null ? `${talent.matching_skills_percent}%` : '—' },
+                  { label: 'Last updated', value: talent.updatedAt ? new Date(talent.updatedAt).toLocaleString() : '—' },
+                ].map((item) => (
+                  <div key={item.label}>
+                    <dt className="text-sm text-gray-500 dark:text-gray-400">{item.label}</dt>
+                    <dd className="text-lg font-medium text-gray-900 dark:text-white">{item.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            {/* Team notes, kept separately from the scraped data */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">Team notes</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Stage: <span className="font-medium text-gray-700 dark:text-gray-300">{stage}</span>
+                {tags.length > 0 && (
+                  <> · Tags: <span className="font-medium text-gray-700 dark:text-gray-300">{tags.join(', ')}</span></>
+                )}
+              </p>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={4}
+                placeholder="e.g. contacted on 10/3, strong React, follow up in Q1"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              />
+              <button
+                onClick={saveNotes}
+                disabled={savingNotes || notes === savedNotes}
+                className="mt-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {savingNotes ? 'Saving...' : 'Save notes'}
+              </button>
+            </div>
+
+            {/* Full stored document */}
+            <details className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <summary className="cursor-pointer text-xl font-semibold text-gray-900 dark:text-white">Stored document</summary>
+              <pre className="mt-4 text-xs text-gray-700 dark:text-gray-300 overflow-x-auto">
+                {JSON.stringify(talent, null, 2)}
+              </pre>
+            </details>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+// Generate lib/api-client.ts from the OpenAPI document served at /api/openapi.json
+// Usage: npm run generate:api-client -- [documentUrlOrFile] [--check]
+// With --check, exit with an error when lib/api-client.ts is out of date instead of writing it.
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const OUTPUT_FILE = new URL('./lib/api-client.ts', import.meta.url);
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const source = args.find(arg => arg !== '--check') || `${APP_URL}/api/openapi.json`;
+
+async function loadDocument() {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) throw new Error(`${source} responded with ${response.status}`);
+    return response.json();
+  }
+  return JSON.parse(readFileSync(source, 'utf8'));
+}
+
+const refName = ref => ref.split('/').pop();
+const pascalCase = value => value.charAt(0).toUpperCase() + value.slice(1);
+const literal = value => (typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : JSON.stringify(value));
+const propertyKey = key => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : literal(key));
+const union = types => [...new Set(types)].join(' | ') || 'never';
+
+function docComment(description, indent) {
+  return description ? `${indent}/** ${description.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+// JSON Schema (as emitted by zod) to a TypeScript type
+function toType(schema, indent = '') {
+  if (!schema || schema === true || Object.keys(schema).every(key => key === 'description' || key === 'default')) {
+    return 'unknown';
+  }
+  if (schema.$ref) return refName(schema.$ref);
+  if ('const' in schema) return literal(schema.const);
+  if (schema.enum) return union(schema.enum.map(literal));
+  if (schema.anyOf || schema.oneOf) return union((schema.anyOf || schema.oneOf).map(member => toType(member, indent)));
+  if (schema.allOf) return schema.allOf.map(member => toType(member, indent)).join(' & ');
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type || 'object'];
+  return union(types.map(type => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `Array<${toType(schema.items, indent)}>`;
+      default:
+        return toObjectType(schema, indent);
+    }
+  }));
+}
+
+function toObjectType(schema, indent) {
+  const properties = Object.entries(schema.properties || {});
+  const required = new Set(schema.required || []);
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    return additional === false ? 'Record<string, never>' : `Record<string, ${toType(additional, indent)}>`;
+  }
+
+  const inner = `${indent}  `;
+  const lines = properties.map(([key, property]) =>
+    `${docComment(property.description, inner)}${inner}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${toType(property, inner)};`
+  );
+  if (additional !== undefined && additional !== false) {
+    lines.push(`${inner}[key: string]: ${toType(additional, inner)};`);
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function jsonSchemaOf(content) {
+  return content?.['application/json']?.schema;
+}
+
+function collectOperations(document) {
+  const operations = [];
+  Object.entries(document.paths || {}).forEach(([path, pathItem]) => {
+    Object.entries(pathItem).forEach(([method, operation]) => {
+      if (!operation.operationId) return;
+      const parameters = operation.parameters || [];
+      const success = Object.entries(operation.responses || {}).find(([status]) => /^2\d\d$/.test(status));
+      operations.push({
+        name: operation.operationId,
+        summary: operation.summary,
+        method: method.toUpperCase(),
+        path,
+        query: parameters.filter(parameter => parameter.in === 'query'),
+        headers: parameters.filter(parameter => parameter.in === 'header'),
+        body: jsonSchemaOf(operation.requestBody?.content),
+        response: success ? jsonSchemaOf(success[1].content) : undefined,
+      });
+    });
+  });
+  return operations;
+}
+
+function parametersType(parameters) {
+  const lines = parameters.map(parameter =>
+    `${docComment(parameter.description, '  ')}  ${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${toType(parameter.schema, '  ')};`
+  );
+  return `{\n${lines.join('\n')}\n}`;
+}
+
+function generateClient(document) {
+  const operations = collectOperations(document);
+  const output = [
+    `// Generated by generate-api-client.mjs from /api/openapi.json (${document.info.title} ${document.info.version}).`,
+    '// Do not edit: change the schemas in lib/openapi.ts and run `npm run generate:api-client`.',
+    '',
+  ];
+
+  Object.entries(document.components?.schemas || {}).forEach(([name, schema]) => {
+    output.push(`${docComment(schema.description, '')}export type ${name} = ${toType(schema)};`, '');
+  });
+
+  operations.forEach(operation => {
+    const typeName = pascalCase(operation.name);
+    if (operation.query.length > 0) output.push(`export type ${typeName}Query = ${parametersType(operation.query)};`, '');
+    if (operation.headers.length > 0) output.push(`export type ${typeName}Headers = ${parametersType(operation.headers)};`, '');
+  });
+
+  output.push(`export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse | null
+  ) {
+    super(body?.error || \`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+  }
+}
+
+export type ApiClientOptions = {
+  // Defaults to the current origin
+  baseUrl?: string;
+  // Sent as "Authorization: Bearer <key>"
+  apiKey?: string;
+  fetch?: typeof fetch;
+};
+
+type RequestOptions = {
+  query?: Record<string, unknown>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+};
+
+// Repeatable parameters are sent once per value; empty values are left out
+function toSearchParams(query: Record<string, unknown>) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== undefined && item !== null && item !== '') params.append(key, String(item));
+    });
+  });
+  return params;
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = (options.baseUrl ?? '').replace(/\\/$/, '');
+
+  async function request<T>(method: string, path: string, { query, headers, body }: RequestOptions = {}): Promise<T> {
+    const params = query ? toSearchParams(query).toString() : '';
+    const requestHeaders: Record<string, string> = {};
+    Object.entries(headers ?? {}).forEach(([name, value]) => {
+      if (value) requestHeaders[name] = value;
+    });
+    if (options.apiKey) requestHeaders.Authorization = \`Bearer \${options.apiKey}\`;
+    if (body !== undefined) requestHeaders['Content-Type'] = 'application/json';
+
+    const response = await fetchImpl(\`\${baseUrl}\${path}\${params ? \`?\${params}\` : ''}\`, {
+      method,
+      headers: requestHeaders,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new ApiError(response.status, data);
+    return data as T;
+  }
+
+  return {`);
+
+  operations.forEach(operation => {
+    const typeName = pascalCase(operation.name);
+    const args = [];
+    const requestOptions = [];
+    if (operation.body) {
+      args.push(`body: ${toType(operation.body, '    ')}`);
+      requestOptions.push('body');
+    }
+    if (operation.query.length > 0) {
+      args.push(`query: ${typeName}Query = {}`);
+      requestOptions.push('query');
+    }
+    if (operation.headers.length > 0) {
+      args.push(`headers: ${typeName}Headers = {}`);
+      requestOptions.push('headers');
+    }
+    const responseType = operation.response ? toType(operation.response, '    ') : 'unknown';
+    const optionsArg = requestOptions.length > 0 ? `, { ${requestOptions.join(', ')} }` : '';
+    output.push(
+      `${docComment(operation.summary, '    ')}    ${operation.name}: (${args.join(', ')}) =>`,
+      `      request<${responseType}>('${operation.method}', '${operation.path}'${optionsArg}),`
+    );
+  });
+
+  output.push('  };', '}', '', 'export type ApiClient = ReturnType<typeof createApiClient>;', '');
+  return output.join('\n');
+}
+
+const client = generateClient(await loadDocument());
+
+if (check) {
+  if (!existsSync(OUTPUT_FILE) || readFileSync(OUTPUT_FILE, 'utf8') !== client) {
+    console.error('lib/api-client.ts is out of date. Run `npm run generate:api-client`.');
+    process.exit(1);
+  }
+  console.log('lib/api-client.ts is up to date');
+} else {
+  writeFileSync(OUTPUT_FILE, client);
+  console.log(`Wrote lib/api-client.ts from ${source}`);
+}
@@ -0,0 +1,47 @@
+// Import saved Braintrust responses or talent exports through POST /api/talent/import
+// Usage: LOCAL_API_KEY=... node import-talents.mjs [--dry-run] <file>...
+// Files can hold list responses ({ "results": [...] }), /freelancers/{id} responses (one, an array
+// or NDJSON) and GET /api/talent/export downloads (json or ndjson). Pass the list and detail files
+// of a scrape together so each list item is merged with its details.
+
+import { readFileSync } from 'fs';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const LOCAL_API_KEY = process.env.LOCAL_API_KEY || ''; // API key with the write scope, from POST /api/admin/api-keys
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const files = args.filter(arg => arg !== '--dry-run');
+
+if (files.length === 0) {
+  console.error('Usage: node import-talents.mjs [--dry-run] <file>...');
+  process.exit(1);
+}
+
+const form = new FormData();
+files.forEach(file => form.append('file', new Blob([readFileSync(file)]), file));
+
+const response = await fetch(`${APP_URL}/api/talent/import${dryRun ? '?dry_run=true' : ''}`, {
+  method: 'POST',
+  headers: LOCAL_API_KEY ? { Authorization: `Bearer ${LOCAL_API_KEY}` } : {},
+  body: form,
+});
+const data = await response.json().catch(() => null);
+
+if (!response.ok || !data?.summary) {
+  console.error(`Import failed (${response.status}): ${data?.error || response.statusText}`);
+  process.exit(1);
+}
+
+data.results.forEach(result => {
+  if (result.status === 'invalid') {
+    console.log(`✗ ${result.sources.join(' + ')}: ${result.reason}`);
+  } else if (result.status === 'updated' && result.changes) {
+    console.log(`~ ${result.id}: ${result.changes.map(change => change.field).join(', ')}`);
+  }
+});
+
+const { inserted, updated, unchanged, invalid } = data.summary;
+console.log(`\n=== ${dryRun ? 'Dry run: nothing was written' : 'Import complete'} ===`);
+console.log(`${dryRun ? `Would insert ${inserted}, update ${updated}` : `Inserted ${inserted}, updated ${updated}`}; ${unchanged} unchanged, ${invalid} invalid`);
+process.exit(invalid > 0 ? 1 : 0);
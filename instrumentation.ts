@@ -0,0 +1,17 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  try {
+    const { ensureIndexes, getDatabase } = await import('@/lib/mongodb');
+    const db = await getDatabase();
+    const created = await ensureIndexes(db);
+    console.log(`Indexes ready: ${created.join(', ')}`);
+
+    // Retry webhook deliveries that are due, including those queued before a restart
+    const { startWebhookWorker } = await import('@/lib/webhooks');
+    startWebhookWorker(db);
+  } catch (error: unknown) {
+    console.error('Error preparing MongoDB at startup:', error);
+  }
+}
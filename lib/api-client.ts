@@ -0,0 +1,341 @@
+// Generated by generate-api-client.mjs from /api/openapi.json (Braintrust Talents API 0.1.0).
+// Do not edit: change the schemas in lib/openapi.ts and run `npm run generate:api-client`.
+
+export type Talent = {
+  id: number;
+  user: {
+    first_name?: string | null;
+    last_name?: string | null;
+    public_name: string;
+    title?: string | null;
+    introduction_headline?: string | null;
+    introduction?: string | null;
+    avatar?: string | null;
+    avatar_thumbnail?: string | null;
+  };
+  role: {
+    name: string;
+    color?: string | null;
+  };
+  external_profiles?: Array<{
+    id: number;
+    site: {
+      id: number;
+      name: string;
+      logo: {
+        id?: number | null;
+        thumbnail: string;
+      };
+      placeholder?: string | null;
+    };
+    public_url: string;
+  }> | null;
+  location?: string | null;
+  country?: string | null;
+  total_jobs?: number | null;
+  average_rating?: string | null;
+  review_count?: number | null;
+  availability_for_work?: boolean | null;
+  superpowers?: Array<{
+    id: number;
+    name: string;
+  }> | null;
+  personal_rank?: Array<number> | null;
+  search_score?: number | null;
+  matching_skills_percent?: number | null;
+  [key: string]: unknown;
+};
+
+export type StoredTalent = {
+  id: number;
+  user: {
+    first_name?: string | null;
+    last_name?: string | null;
+    public_name: string;
+    title?: string | null;
+    introduction_headline?: string | null;
+    introduction?: string | null;
+    avatar?: string | null;
+    avatar_thumbnail?: string | null;
+  };
+  role: {
+    name: string;
+    color?: string | null;
+  };
+  external_profiles?: Array<{
+    id: number;
+    site: {
+      id: number;
+      name: string;
+      logo: {
+        id?: number | null;
+        thumbnail: string;
+      };
+      placeholder?: string | null;
+    };
+    public_url: string;
+  }> | null;
+  location?: string | null;
+  country?: string | null;
+  total_jobs?: number | null;
+  average_rating?: string | null;
+  review_count?: number | null;
+  availability_for_work?: boolean | null;
+  superpowers?: Array<{
+    id: number;
+    name: string;
+  }> | null;
+  personal_rank?: Array<number> | null;
+  search_score?: number | null;
+  matching_skills_percent?: number | null;
+  talent_id: number;
+  version?: number;
+  updatedAt?: string;
+  lastSeenAt?: string;
+  stale?: boolean;
+  raw?: Record<string, unknown>;
+};
+
+export type TalentListItem = {
+  id: number;
+  user: {
+    first_name?: string | null;
+    last_name?: string | null;
+    public_name: string;
+    title?: string | null;
+    introduction_headline?: string | null;
+    introduction?: string | null;
+    avatar?: string | null;
+    avatar_thumbnail?: string | null;
+  };
+  role: {
+    name: string;
+    color?: string | null;
+  };
+  external_profiles?: Array<{
+    id: number;
+    site: {
+      id: number;
+      name: string;
+      logo: {
+        id?: number | null;
+        thumbnail: string;
+      };
+      placeholder?: string | null;
+    };
+    public_url: string;
+  }> | null;
+  location?: string | null;
+  country?: string | null;
+  total_jobs?: number | null;
+  average_rating?: string | null;
+  review_count?: number | null;
+  availability_for_work?: boolean | null;
+  superpowers?: Array<{
+    id: number;
+    name: string;
+  }> | null;
+  personal_rank?: Array<number> | null;
+  search_score?: number | null;
+  matching_skills_percent?: number | null;
+  talent_id: number;
+  version?: number;
+  updatedAt?: string;
+  lastSeenAt?: string;
+  stale?: boolean;
+  raw?: Record<string, unknown>;
+  annotation: Annotation;
+  /** Matched snippets, when searching */
+  highlights?: Array<SearchHighlight>;
+};
+
+export type Annotation = {
+  talent_id: number;
+  notes: string;
+  tags: Array<string>;
+  stage: 'new' | 'contacted' | 'interviewing' | 'hired' | 'rejected';
+  updatedAt: string | null;
+};
+
+export type SearchHighlight = {
+  field: string;
+  fragments: Array<{
+    text: string;
+    match: boolean;
+  }>;
+};
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+export type TalentListResponse = {
+  talents: Array<TalentListItem>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  } | {
+    limit: number;
+    total: number;
+    /** null on the last page */
+    nextCursor: string | null;
+  };
+  sort: {
+    key: 'rank' | 'relevance' | 'total_jobs' | 'average_rating' | 'review_count' | 'updatedAt' | 'name';
+    order: 'asc' | 'desc';
+  };
+  filters: {
+    roles: Array<FacetCount>;
+    nationalities: Array<FacetCount>;
+    superpowers: Array<FacetCount>;
+    profiles: Array<FacetCount>;
+    availability: {
+      available: number;
+      unavailable: number;
+    };
+    tags: Array<string>;
+  };
+};
+
+export type TalentBatchResponse = {
+  talents: Array<TalentListItem>;
+  /** Requested ids that are not stored */
+  missing: Array<number>;
+};
+
+export type FieldChange = {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+};
+
+export type TalentSaveResponse = {
+  success: true;
+  message: string;
+  id: number;
+  status: 'inserted' | 'updated' | 'unchanged';
+  changes?: Array<FieldChange>;
+  matched: number;
+  modified: number;
+  upserted: number;
+};
+
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+export type ErrorResponse = {
+  error: string;
+  details?: string;
+  errors?: Array<ValidationIssue>;
+};
+
+export type ListTalentsQuery = {
+  search?: string;
+  role?: string | Array<string>;
+  nationality?: string | Array<string>;
+  available?: boolean;
+  total_jobs_min?: number;
+  total_jobs_max?: number;
+  average_rating_min?: number;
+  average_rating_max?: number;
+  review_count_min?: number;
+  review_count_max?: number;
+  superpower?: string | Array<string>;
+  superpowers_mode?: 'any' | 'all';
+  profile?: string | Array<string>;
+  tag?: string;
+  stage?: 'new' | 'contacted' | 'interviewing' | 'hired' | 'rejected';
+  include_stale?: boolean;
+  /** Page number, from 1 (page mode) */
+  page?: number;
+  /** Talents per page, 20 by default */
+  limit?: number;
+  /** Switches to cursor mode: empty for the first page, then each nextCursor */
+  cursor?: string;
+  /** relevance when searching, rank otherwise */
+  sort?: 'rank' | 'relevance' | 'total_jobs' | 'average_rating' | 'review_count' | 'updatedAt' | 'name';
+  /** A→Z for name, highest/newest first otherwise */
+  order?: 'asc' | 'desc';
+  /** Comma-separated talent ids, e.g. 12,7,31: returns those talents in that order instead of a list */
+  ids?: string;
+};
+
+export type SaveTalentHeaders = {
+  /** Only save while the talent has this ETag; `*` requires it to exist */
+  'If-Match'?: string;
+};
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorResponse | null
+  ) {
+    super(body?.error || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+  }
+}
+
+export type ApiClientOptions = {
+  // Defaults to the current origin
+  baseUrl?: string;
+  // Sent as "Authorization: Bearer <key>"
+  apiKey?: string;
+  fetch?: typeof fetch;
+};
+
+type RequestOptions = {
+  query?: Record<string, unknown>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+};
+
+// Repeatable parameters are sent once per value; empty values are left out
+function toSearchParams(query: Record<string, unknown>) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== undefined && item !== null && item !== '') params.append(key, String(item));
+    });
+  });
+  return params;
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = (options.baseUrl ?? '').replace(/\/$/, '');
+
+  async function request<T>(method: string, path: string, { query, headers, body }: RequestOptions = {}): Promise<T> {
+    const params = query ? toSearchParams(query).toString() : '';
+    const requestHeaders: Record<string, string> = {};
+    Object.entries(headers ?? {}).forEach(([name, value]) => {
+      if (value) requestHeaders[name] = value;
+    });
+    if (options.apiKey) requestHeaders.Authorization = `Bearer ${options.apiKey}`;
+    if (body !== undefined) requestHeaders['Content-Type'] = 'application/json';
+
+    const response = await fetchImpl(`${baseUrl}${path}${params ? `?${params}` : ''}`, {
+      method,
+      headers: requestHeaders,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new ApiError(response.status, data);
+    return data as T;
+  }
+
+  return {
+    /** List talents with search, filters, sorting and pagination, or look up talents by id */
+    listTalents: (query: ListTalentsQuery = {}) =>
+      request<TalentListResponse | TalentBatchResponse>('GET', '/api/talent', { query }),
+    /** Save a talent, keyed on its id */
+    saveTalent: (body: Talent, headers: SaveTalentHeaders = {}) =>
+      request<TalentSaveResponse>('PUT', '/api/talent', { body, headers }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
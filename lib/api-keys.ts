@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from 'crypto';
+import { Db, ObjectId, WithId } from 'mongodb';
+import { z } from 'zod';
+
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(['read']),
+});
+
+// Only the SHA-256 of a key is stored; the key itself is shown once, on creation
+export type ApiKey = {
+  name: string;
+  hash: string;
+  // First characters of the key, so it can be recognised in listings
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+};
+
+const KEY_PREFIX = 'bt_';
+
+let indexPromise: Promise<string | null> | null = null;
+
+function getApiKeys(db: Db) {
+  const collection = db.collection<ApiKey>('api_keys');
+  if (!indexPromise) {
+    indexPromise = collection.createIndex({ hash: 1 }, { unique: true }).catch((error: unknown) => {
+      console.error('Error creating api_keys index:', error);
+      indexPromise = null;
+      return null;
+    });
+  }
+  return collection;
+}
+
+export function hashApiKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// API representation of a key; never includes the hash
+export function serializeApiKey(apiKey: WithId<ApiKey>) {
+  const { _id, name, prefix, scopes, createdAt, lastUsedAt, revokedAt } = apiKey;
+  return { id: _id.toHexString(), name, prefix, scopes, createdAt, lastUsedAt, revokedAt };
+}
+
+export async function createApiKey(db: Db, name: string, scopes: ApiKeyScope[]) {
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const apiKey: ApiKey = {
+    name,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    scopes,
+    createdAt: new Date(),
+  };
+
+  const result = await getApiKeys(db).insertOne(apiKey);
+  return { key, apiKey: { _id: result.insertedId, ...apiKey } };
+}
+
+export async function listApiKeys(db: Db) {
+  return getApiKeys(db).find({}).sort({ createdAt: -1 }).toArray();
+}
+
+// Returns the revoked key, or null when it does not exist
+export async function revokeApiKey(db: Db, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+
+  const collection = getApiKeys(db);
+  const _id = new ObjectId(id);
+  await collection.updateOne({ _id, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } });
+  return collection.findOne({ _id });
+}
+
+// Look up an active key by its plaintext value
+export async function findActiveApiKey(db: Db, key: string) {
+  const apiKey = await getApiKeys(db).findOne({ hash: hashApiKey(key), revokedAt: { $exists: false } });
+
+  if (apiKey) {
+    getApiKeys(db)
+      .updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } })
+      .catch((error: unknown) => console.error('Error recording API key use:', error));
+  }
+  return apiKey;
+}
@@ -0,0 +1,92 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { WithId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { ApiKey, ApiKeyScope, findActiveApiKey } from '@/lib/api-keys';
+import { checkAuthFailureLimit, rateLimitResponse, RateLimitResult, recordAuthFailure } from '@/lib/rate-limit';
+
+export type AuthError =
+  | { error: string; status: 401 | 403 }
+  | { error: string; status: 429; rateLimit: RateLimitResult };
+
+export type AuthResult = { apiKey: WithId<ApiKey> | null } | AuthError;
+
+// `public` (default) lets anyone read; `key` requires a key with the read scope
+export function getReadAccess(): 'public' | 'key' {
+  return process.env.TALENT_READ_ACCESS === 'key' ? 'key' : 'public';
+}
+
+// Token from an `Authorization: Bearer <key>` header
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Check the request's API key for `scope`. Reads pass without a key while
+// read access is public. Clients that sent too many invalid keys get a 429.
+export async function authorizeRequest(request: NextRequest, scope: ApiKeyScope): Promise<AuthResult> {
+  const token = getBearerToken(request);
+
+  if (!token) {
+    if (scope === 'read' && getReadAccess() === 'public') {
+      return { apiKey: null };
+    }
+    return { error: 'API key required. Send it as "Authorization: Bearer <key>".', status: 401 };
+  }
+
+  const rateLimit = await checkAuthFailureLimit(request);
+  if (!rateLimit.allowed) {
+    return { error: 'Too many invalid API keys. Try again later.', status: 429, rateLimit };
+  }
+
+  const db = await getDatabase();
+  const apiKey = await findActiveApiKey(db, token);
+  if (!apiKey) {
+    await recordAuthFailure(request);
+    return { error: 'Invalid or revoked API key.', status: 401 };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return { error: `API key lacks the "${scope}" scope.`, status: 403 };
+  }
+
+  return { apiKey };
+}
+
+// Admin routes use the ADMIN_API_KEY secret rather than a stored key
+export function authorizeAdmin(request: NextRequest): AuthResult {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return { error: 'Admin API is disabled. Set ADMIN_API_KEY to enable it.', status: 403 };
+  }
+
+  const token = getBearerToken(request);
+  if (!token) {
+    return { error: 'Admin key required. Send it as "Authorization: Bearer <key>".', status: 401 };
+  }
+
+  // Compare digests so the comparison takes the same time for any input length
+  const expected = createHash('sha256').update(adminKey).digest();
+  const actual = createHash('sha256').update(token).digest();
+  if (!timingSafeEqual(expected, actual)) {
+    return { error: 'Invalid admin key.', status: 401 };
+  }
+
+  return { apiKey: null };
+}
+
+export function authErrorResponse(request: NextRequest, auth: AuthError) {
+  if (auth.status === 429) return rateLimitResponse(request, auth.rateLimit);
+
+  return NextResponse.json(
+    { error: auth.error },
+    {
+      status: auth.status,
+      headers: {
+        ...getCorsHeaders(request),
+        ...(auth.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}),
+      }
+    }
+  );
+}
@@ -0,0 +1,32 @@
+// API key for the UI's own writes (saved searches, annotations). The key is
+// asked for the first time a write is refused and kept in localStorage.
+
+const STORAGE_KEY = 'talentApiKey';
+
+function getBrowserApiKey(): string | null {
+  return typeof window === 'undefined' ? null : window.localStorage.getItem(STORAGE_KEY);
+}
+
+function promptForApiKey(): string | null {
+  const key = window.prompt('This needs an API key with the "write" scope:')?.trim();
+  if (!key) return null;
+  window.localStorage.setItem(STORAGE_KEY, key);
+  return key;
+}
+
+function withApiKey(init: RequestInit, key: string | null): RequestInit {
+  const headers = new Headers(init.headers);
+  if (key) headers.set('Authorization', `Bearer ${key}`);
+  return { ...init, headers };
+}
+
+// `fetch` with the stored key. A 401 or 403 drops the stored key and asks for
+// another one; the request is retried once with it.
+export async function fetchWithApiKey(url: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, withApiKey(init, getBrowserApiKey()));
+  if (response.status !== 401 && response.status !== 403) return response;
+
+  window.localStorage.removeItem(STORAGE_KEY);
+  const key = promptForApiKey();
+  return key ? fetch(url, withApiKey(init, key)) : response;
+}
@@ -0,0 +1,54 @@
+// CORS settings, read once from the environment:
+// - CORS_ALLOWED_ORIGINS: comma-separated origins, or * for any (default: *)
+// - CORS_ALLOWED_METHODS: comma-separated methods (default: GET, POST, PUT, PATCH, DELETE, OPTIONS)
+// - CORS_MAX_AGE: preflight cache lifetime in seconds (default: 86400)
+type CorsConfig = {
+  origins: string[];
+  methods: string;
+  maxAge: string;
+};
+
+let corsConfig: CorsConfig | null = null;
+
+function splitList(value: string | undefined, fallback: string[]) {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+function getCorsConfig(): CorsConfig {
+  if (!corsConfig) {
+    corsConfig = {
+      origins: splitList(process.env.CORS_ALLOWED_ORIGINS, ['*']).map(origin => origin.replace(/\/+$/, '')),
+      methods: splitList(process.env.CORS_ALLOWED_METHODS, ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'])
+        .map(method => method.toUpperCase())
+        .join(', '),
+      maxAge: String(parseInt(process.env.CORS_MAX_AGE || '', 10) || 86400),
+    };
+  }
+  return corsConfig;
+}
+
+// CORS headers helper. The request's Origin is echoed back when it is allowed;
+// other origins get no Access-Control-Allow-Origin header, so browsers block them.
+export function getCorsHeaders(request: Request): Record<string, string> {
+  const { origins, methods, maxAge } = getCorsConfig();
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-Match, If-None-Match',
+    'Access-Control-Expose-Headers': 'ETag, Location, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset',
+    'Access-Control-Max-Age': maxAge,
+  };
+
+  if (origins.includes('*')) {
+    headers['Access-Control-Allow-Origin'] = '*';
+    return headers;
+  }
+
+  const origin = request.headers.get('origin');
+  if (origin && origins.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  // Responses differ by Origin, so caches must key on it
+  headers.Vary = 'Origin';
+  return headers;
+}
@@ -0,0 +1,30 @@
+import { Document } from 'mongodb';
+
+// Strong ETag of a stored talent. Every write that changes the talent bumps
+// `version` (and usually `updatedAt`); bookkeeping such as `lastSeenAt` does not.
+export function getTalentETag(talent: Document): string {
+  const version = typeof talent.version === 'number' ? talent.version : 0;
+  const updatedAt = talent.updatedAt instanceof Date ? talent.updatedAt.getTime() : 0;
+  return `"${version}-${updatedAt.toString(36)}"`;
+}
+
+// `*` or a comma-separated list of entity tags, e.g. `"1-abc", W/"2-def"`
+function parseETags(header: string): string[] {
+  return header.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+// If-Match uses the strong comparison, so weak tags never match.
+// `etag` is null when the talent does not exist.
+export function matchesIfMatch(header: string, etag: string | null): boolean {
+  if (etag === null) return false;
+  const tags = parseETags(header);
+  return tags.includes('*') || tags.includes(etag);
+}
+
+// If-None-Match uses the weak comparison: W/"x" matches "x"
+export function matchesIfNoneMatch(header: string, etag: string | null): boolean {
+  if (etag === null) return false;
+  const tags = parseETags(header);
+  const opaque = (tag: string) => tag.replace(/^W\//, '');
+  return tags.includes('*') || tags.some(tag => opaque(tag) === opaque(etag));
+}
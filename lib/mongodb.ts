@@ -1,4 +1,5 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, IndexDescription, MongoServerError } from 'mongodb';
+import { TEXT_INDEX_FIELDS, TEXT_INDEX_NAME } from '@/lib/talent-search';
 
 if (!process.env.MONGODB_URI) {
   throw new Error('Please add your Mongo URI to .env.local');
@@ -28,9 +29,83 @@ if (process.env.NODE_ENV === 'development') {
   clientPromise = client.connect();
 }
 
+// Indexes the talents collection needs. talent_id is the upsert key; legacy
+// documents without one are left out of the unique index until reconciled
+// (see lib/talent-reconcile.ts). The others back the list filters and sorts.
+export const TALENT_INDEXES: IndexDescription[] = [
+  { key: { talent_id: 1 }, name: 'talent_id_unique', unique: true, partialFilterExpression: { talent_id: { $type: 'number' } } },
+  { key: { id: 1 }, name: 'id' },
+  { key: { 'role.name': 1 }, name: 'role_name' },
+  { key: { country: 1 }, name: 'country' },
+  { key: { availability_for_work: 1 }, name: 'availability_for_work' },
+  { key: { personal_rank: -1, id: 1 }, name: 'personal_rank' },
+  { key: { total_jobs: -1, id: 1 }, name: 'total_jobs' },
+  { key: { review_count: -1, id: 1 }, name: 'review_count' },
+  { key: { updatedAt: -1, id: 1 }, name: 'updatedAt' },
+  {
+    key: Object.fromEntries(Object.keys(TEXT_INDEX_FIELDS).map(field => [field, 'text'])),
+    name: TEXT_INDEX_NAME,
+    weights: TEXT_INDEX_FIELDS,
+    default_language: 'english',
+  },
+];
+
+// A talent's history is listed newest first (GET /api/talent/[id]/history)
+export const TALENT_HISTORY_INDEXES: IndexDescription[] = [
+  { key: { talent_id: 1, changedAt: -1, version: -1 }, name: 'talent_id_changedAt' },
+];
+
+const COLLECTION_INDEXES: Record<string, IndexDescription[]> = {
+  talents: TALENT_INDEXES,
+  talent_history: TALENT_HISTORY_INDEXES,
+};
+
+// A failed build (e.g. the unique talent_id index while duplicates exist) is
+// retried at most this often, so requests do not each start a collection scan
+const INDEX_RETRY_MS = 10 * 60 * 1000;
+
+let indexesPromise: Promise<string[]> | null = null;
+let indexesFailedAt: number | null = null;
+
+// Create the declared indexes once per process. Each index is created on its
+// own, so one failure does not block the rest; failures are logged, and the
+// build is retried after INDEX_RETRY_MS or when `retryFailed` is set (the
+// reconcile sets it once duplicates are gone).
+export function ensureIndexes(db: Db, { retryFailed = false }: { retryFailed?: boolean } = {}): Promise<string[]> {
+  const retryDue = indexesFailedAt !== null && (retryFailed || Date.now() - indexesFailedAt >= INDEX_RETRY_MS);
+  if (!indexesPromise || retryDue) {
+    let failed = false;
+    indexesFailedAt = null;
+    indexesPromise = Promise.all(
+      Object.entries(COLLECTION_INDEXES).flatMap(([collectionName, indexes]) =>
+        indexes.map(({ key, ...options }) =>
+          db.collection(collectionName).createIndex(key, options).catch((error: unknown) => {
+            // IndexOptionsConflict / IndexKeySpecsConflict: an index on the same
+            // keys already exists under another name or options, e.g. created by hand
+            if (error instanceof MongoServerError && (error.code === 85 || error.code === 86)) {
+              console.warn(`Keeping the existing ${collectionName} index in place of ${options.name}:`, error.message);
+              return null;
+            }
+            console.error(`Error creating ${collectionName} index ${options.name}:`, error);
+            failed = true;
+            return null;
+          })
+        )
+      )
+    ).then(names => {
+      if (failed) indexesFailedAt = Date.now();
+      return names.filter((name): name is string => name !== null);
+    });
+  }
+  return indexesPromise;
+}
+
 export async function getDatabase(): Promise<Db> {
   const client = await clientPromise;
-  return client.db('braintrust');
+  const db = client.db('braintrust');
+  // Normally done at startup (instrumentation.ts); this covers dev reloads
+  void ensureIndexes(db);
+  return db;
 }
 
 export default clientPromise;
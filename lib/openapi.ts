@@ -0,0 +1,280 @@
+import { z } from 'zod';
+import { Document } from 'mongodb';
+import packageJson from '@/package.json';
+import { talentSchema } from '@/lib/talent';
+import { PIPELINE_STAGES } from '@/lib/talent-annotations';
+import { talentFiltersSchema, TALENT_SORT_KEYS } from '@/lib/talent-query';
+import { MAX_LIMIT } from '@/lib/pagination';
+import { formatValidationIssues, toValidationIssues } from '@/lib/validation';
+
+// The request/response contract of /api/talent. The routes type their
+// responses with these schemas and check stored talents against them
+// (toTalentListItems), /api/openapi.json publishes them and
+// generate-api-client.mjs turns that document into lib/api-client.ts.
+
+export const paginationQuerySchema = z.object({
+  page: z.int().positive().optional().describe('Page number, from 1 (page mode)'),
+  limit: z.int().positive().max(MAX_LIMIT).optional().describe('Talents per page, 20 by default'),
+  cursor: z.string().optional().describe('Switches to cursor mode: empty for the first page, then each nextCursor'),
+  sort: z.enum(TALENT_SORT_KEYS).optional().describe('relevance when searching, rank otherwise'),
+  order: z.enum(['asc', 'desc']).optional().describe('A→Z for name, highest/newest first otherwise'),
+});
+
+export const talentLookupQuerySchema = z.object({
+  ids: z.string().optional().describe('Comma-separated talent ids, e.g. 12,7,31: returns those talents in that order instead of a list'),
+});
+
+const validationIssueSchema = z.object({
+  field: z.string(),
+  message: z.string(),
+});
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  details: z.string().optional(),
+  errors: z.array(validationIssueSchema).optional(),
+});
+
+// PUT body: a talent as returned by the Braintrust APIs; unknown fields are kept under `raw`
+const talentRequestSchema = talentSchema.loose();
+
+const storedTalentSchema = talentSchema.extend({
+  talent_id: z.int(),
+  version: z.int().optional(),
+  updatedAt: z.string().optional(),
+  lastSeenAt: z.string().optional(),
+  stale: z.boolean().optional(),
+  raw: z.record(z.string(), z.unknown()).optional(),
+});
+
+const annotationSchema = z.object({
+  talent_id: z.int(),
+  notes: z.string(),
+  tags: z.array(z.string()),
+  stage: z.enum(PIPELINE_STAGES),
+  updatedAt: z.string().nullable(),
+});
+
+const searchHighlightSchema = z.object({
+  field: z.string(),
+  fragments: z.array(z.object({ text: z.string(), match: z.boolean() })),
+});
+
+const talentListItemSchema = storedTalentSchema.extend({
+  annotation: annotationSchema,
+  highlights: z.array(searchHighlightSchema).optional().describe('Matched snippets, when searching'),
+});
+
+const facetCountSchema = z.object({
+  value: z.string(),
+  count: z.int(),
+});
+
+const pagePaginationSchema = z.object({
+  page: z.int(),
+  limit: z.int(),
+  total: z.int(),
+  totalPages: z.int(),
+});
+
+const cursorPaginationSchema = z.object({
+  limit: z.int(),
+  total: z.int(),
+  nextCursor: z.string().nullable().describe('null on the last page'),
+});
+
+export const talentListResponseSchema = z.object({
+  talents: z.array(talentListItemSchema),
+  pagination: z.union([pagePaginationSchema, cursorPaginationSchema]),
+  sort: z.object({
+    key: z.enum(TALENT_SORT_KEYS),
+    order: z.enum(['asc', 'desc']),
+  }),
+  // Counts for each filter, computed without that filter applied
+  filters: z.object({
+    roles: z.array(facetCountSchema),
+    nationalities: z.array(facetCountSchema),
+    superpowers: z.array(facetCountSchema),
+    profiles: z.array(facetCountSchema),
+    availability: z.object({ available: z.int(), unavailable: z.int() }),
+    tags: z.array(z.string()),
+  }),
+});
+
+export const talentBatchResponseSchema = z.object({
+  talents: z.array(talentListItemSchema),
+  missing: z.array(z.int()).describe('Requested ids that are not stored'),
+});
+
+const fieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown().optional(),
+  to: z.unknown().optional(),
+});
+
+export const talentSaveResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  id: z.int(),
+  status: z.enum(['inserted', 'updated', 'unchanged']),
+  changes: z.array(fieldChangeSchema).optional(),
+  matched: z.int(),
+  modified: z.int(),
+  upserted: z.int(),
+});
+
+// Stored documents also carry fields outside the contract, such as `_id`
+const servedTalentListItemSchema = talentListItemSchema.loose();
+
+export type TalentListItem = z.output<typeof servedTalentListItemSchema>;
+
+// Stored talents, with their annotation and highlights attached, as the list
+// and batch responses serve them. Dates are serialized as in the JSON response,
+// and legacy documents without talent_id get their id (see lib/talent-reconcile.ts).
+// Documents that still do not match the contract, e.g. saved before validation,
+// are logged and left out rather than failing the whole response.
+export function toTalentListItems(documents: Document[]): TalentListItem[] {
+  return documents.flatMap(document => {
+    const served = JSON.parse(JSON.stringify({ ...document, talent_id: document.talent_id ?? document.id }));
+    const result = servedTalentListItemSchema.safeParse(served);
+    if (!result.success) {
+      const issues = formatValidationIssues(toValidationIssues(result.error, served));
+      console.warn(`Skipping stored talent ${served.talent_id} that does not match the API schema: ${issues}`);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+export type TalentListResponse = z.input<typeof talentListResponseSchema>;
+export type TalentBatchResponse = z.input<typeof talentBatchResponseSchema>;
+export type TalentSaveResponse = z.input<typeof talentSaveResponseSchema>;
+
+const COMPONENT_SCHEMAS = {
+  Talent: talentRequestSchema,
+  StoredTalent: storedTalentSchema,
+  TalentListItem: talentListItemSchema,
+  Annotation: annotationSchema,
+  SearchHighlight: searchHighlightSchema,
+  FacetCount: facetCountSchema,
+  TalentListResponse: talentListResponseSchema,
+  TalentBatchResponse: talentBatchResponseSchema,
+  FieldChange: fieldChangeSchema,
+  TalentSaveResponse: talentSaveResponseSchema,
+  ValidationIssue: validationIssueSchema,
+  ErrorResponse: errorResponseSchema,
+};
+
+type JsonSchema = Record<string, unknown>;
+
+const toJsonSchema = (schema: z.ZodType) =>
+  z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+
+const ref = (name: keyof typeof COMPONENT_SCHEMAS) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (name: keyof typeof COMPONENT_SCHEMAS) => ({
+  content: { 'application/json': { schema: ref(name) } },
+});
+
+const errorResponse = (description: string) => ({ description, ...jsonContent('ErrorResponse') });
+
+function buildComponentSchemas(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  Object.entries(COMPONENT_SCHEMAS).forEach(([id, schema]) => registry.add(schema, { id }));
+  const { schemas } = z.toJSONSchema(registry, {
+    io: 'input',
+    unrepresentable: 'any',
+    uri: id => `#/components/schemas/${id}`,
+  });
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      // Components live in the document, so they need no dialect or id of their own
+      const component: JsonSchema = { ...schema };
+      delete component.$schema;
+      delete component.$id;
+      return [id, component];
+    })
+  );
+}
+
+// Filters are read with their input types: repeatable filters take one or more values
+function buildQueryParameters() {
+  return [talentFiltersSchema, paginationQuerySchema, talentLookupQuerySchema].flatMap(schema => {
+    const { properties = {} } = toJsonSchema(schema) as { properties?: Record<string, JsonSchema> };
+    return Object.entries(properties).map(([name, { description, ...propertySchema }]) => ({
+      name,
+      in: 'query',
+      required: false,
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    }));
+  });
+}
+
+let openApiDocument: JsonSchema | null = null;
+
+export function buildOpenApiDocument(): JsonSchema {
+  if (openApiDocument) return openApiDocument;
+
+  openApiDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Braintrust Talents API',
+      version: packageJson.version,
+    },
+    paths: {
+      '/api/talent': {
+        get: {
+          operationId: 'listTalents',
+          summary: 'List talents with search, filters, sorting and pagination, or look up talents by id',
+          security: [{}, { bearerAuth: [] }],
+          parameters: buildQueryParameters(),
+          responses: {
+            200: {
+              description: 'A page of talents with filter counts, or with `ids` the talents found',
+              content: {
+                'application/json': { schema: { anyOf: [ref('TalentListResponse'), ref('TalentBatchResponse')] } },
+              },
+            },
+            400: errorResponse('Invalid filters, sort, pagination or ids'),
+            401: errorResponse('Missing or invalid API key'),
+            403: errorResponse('The API key lacks the read scope'),
+            429: errorResponse('Rate limit exceeded'),
+            500: errorResponse('Server error'),
+          },
+        },
+        put: {
+          operationId: 'saveTalent',
+          summary: 'Save a talent, keyed on its id',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            {
+              name: 'If-Match',
+              in: 'header',
+              required: false,
+              description: 'Only save while the talent has this ETag; `*` requires it to exist',
+              schema: { type: 'string' },
+            },
+          ],
+          requestBody: { required: true, ...jsonContent('Talent') },
+          responses: {
+            200: { description: 'The talent was saved, or was unchanged', ...jsonContent('TalentSaveResponse') },
+            400: errorResponse('Invalid talent data'),
+            401: errorResponse('Missing or invalid API key'),
+            403: errorResponse('The API key lacks the write scope'),
+            412: errorResponse('The talent no longer matches If-Match'),
+            429: errorResponse('Rate limit exceeded'),
+            500: errorResponse('Server error'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: buildComponentSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+      },
+    },
+  };
+  return openApiDocument;
+}
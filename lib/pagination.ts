@@ -0,0 +1,90 @@
+import { Document } from 'mongodb';
+import { SortDirection, TalentSort, TalentSortKey } from '@/lib/talent-query';
+
+// Upper bound for the `limit` query parameter
+export const MAX_LIMIT = 100;
+
+// Position of the last talent on a page: its sort value and id, in the sort
+// the page was listed with
+export type TalentCursor = {
+  sort: TalentSortKey;
+  direction: SortDirection;
+  value: number | string | Date | null;
+  id: number;
+};
+
+// Parse a positive integer query parameter; null when it is malformed
+export function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : null;
+}
+
+// Encode the cursor after `talent`, which carries the `_sort` value of the list pipeline
+export function encodeCursor(talent: Document, sort: TalentSort): string {
+  const value = talent._sort ?? null;
+  const cursor = {
+    sort: sort.key,
+    direction: sort.direction,
+    // Dates do not survive JSON, so tag them
+    value: value instanceof Date ? value.toISOString() : value,
+    date: value instanceof Date,
+    id: talent.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Null when malformed or created for a different sort
+export function decodeCursor(value: string, sort: TalentSort): TalentCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor?.id !== 'number' ||
+      cursor.sort !== sort.key ||
+      cursor.direction !== sort.direction ||
+      (cursor.value !== null && typeof cursor.value !== 'number' && typeof cursor.value !== 'string')
+    ) {
+      return null;
+    }
+
+    const sortValue = cursor.date ? new Date(cursor.value) : cursor.value;
+    if (sortValue instanceof Date && isNaN(sortValue.getTime())) return null;
+    return { sort: cursor.sort, direction: cursor.direction, value: sortValue, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
+
+// Match the talents that sort after the cursor, on `field` (see getSortField
+// in lib/talent-query). Ties are ordered by id opposite to the sort direction.
+// The conditions hold for array fields too, whose sort value is their largest
+// element descending and their smallest ascending.
+export function matchAfterCursor({ direction, value, id }: TalentCursor, field: string): Document {
+  const laterId = { id: { [direction === 1 ? '$lt' : '$gt']: id } };
+
+  // Talents without a sort value come first ascending and last descending
+  if (value === null) {
+    return direction === 1
+      ? { $or: [{ [field]: null, ...laterId }, { [field]: { $ne: null } }] }
+      : { [field]: null, ...laterId };
+  }
+
+  return direction === 1
+    ? {
+        $or: [
+          // Smallest value above the cursor's
+          { $and: [{ [field]: { $not: { $lte: value } } }, { [field]: { $ne: null } }] },
+          // Same smallest value, later id
+          { $and: [{ [field]: value }, { [field]: { $not: { $lt: value } } }], ...laterId },
+        ],
+      }
+    : {
+        $or: [
+          // Largest value below the cursor's, or none
+          { [field]: { $not: { $gte: value } } },
+          // Same largest value, later id
+          { $and: [{ [field]: value }, { [field]: { $not: { $gt: value } } }], ...laterId },
+        ],
+      };
+}
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Db, WithId } from 'mongodb';
+import { getDatabase } from '@/lib/mongodb';
+import { getCorsHeaders } from '@/lib/cors';
+import { ApiKey } from '@/lib/api-keys';
+
+// Token bucket settings, read from the environment:
+// - RATE_LIMIT_CAPACITY: burst size, in requests (default: 60; 0 disables rate limiting)
+// - RATE_LIMIT_REFILL_PER_SECOND: sustained requests per second (default: 1)
+// - RATE_LIMIT_STORE: `memory` (default, per process) or `mongo` (shared by every instance)
+// - TRUSTED_PROXY_HOPS: proxies in front of Next.js that append to X-Forwarded-For (default: 1)
+export type RateLimitConfig = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitState = {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Milliseconds until the next token is available
+  retryAfterMs: number;
+  // Milliseconds until the bucket is full again
+  resetMs: number;
+};
+
+// Storage for token buckets; implementations must take tokens atomically.
+// A `cost` of 0 reports whether a token is available without spending it.
+export interface RateLimitStore {
+  take(key: string, config: RateLimitConfig, cost?: number): Promise<RateLimitState>;
+}
+
+function toState(tokens: number, allowed: boolean, config: RateLimitConfig): RateLimitState {
+  const msPerToken = 1000 / config.refillPerSecond;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) * msPerToken),
+    resetMs: Math.ceil((config.capacity - tokens) * msPerToken),
+  };
+}
+
+type Bucket = { tokens: number; updatedAt: number };
+
+// Buckets kept in process memory; each Next.js instance limits on its own
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  // Drop full buckets once the map grows past this many keys
+  constructor(private maxKeys = 10000) {}
+
+  async take(key: string, config: RateLimitConfig, cost = 1): Promise<RateLimitState> {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) ?? { tokens: config.capacity, updatedAt: now };
+    const tokens = Math.min(config.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * config.refillPerSecond);
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - cost : tokens;
+
+    this.buckets.set(key, { tokens: left, updatedAt: now });
+    if (this.buckets.size > this.maxKeys) {
+      this.prune(now, config);
+    }
+
+    return toState(left, allowed, config);
+  }
+
+  private prune(now: number, config: RateLimitConfig) {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * config.refillPerSecond >= config.capacity) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+type StoredBucket = { _id: string; tokens: number; updatedAt: Date; allowed: boolean };
+
+// Buckets in the `rate_limits` collection, shared by every Next.js instance.
+// Refill and take happen in one pipeline update, so concurrent requests cannot overspend.
+export class MongoRateLimitStore implements RateLimitStore {
+  private indexPromise: Promise<string | null> | null = null;
+
+  constructor(private getDb: () => Promise<Db>) {}
+
+  async take(key: string, config: RateLimitConfig, cost = 1): Promise<RateLimitState> {
+    const collection = (await this.getDb()).collection<StoredBucket>('rate_limits');
+
+    if (!this.indexPromise) {
+      // Idle buckets are full again long before they expire
+      this.indexPromise = collection
+        .createIndex({ updatedAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 })
+        .catch((error: unknown) => {
+          console.error('Error creating rate_limits index:', error);
+          this.indexPromise = null;
+          return null;
+        });
+    }
+
+    const now = new Date();
+    const refilled = {
+      $min: [
+        config.capacity,
+        {
+          $add: [
+            { $ifNull: ['$tokens', config.capacity] },
+            { $multiply: [{ $subtract: [now, { $ifNull: ['$updatedAt', now] }] }, config.refillPerSecond / 1000] },
+          ],
+        },
+      ],
+    };
+
+    const bucket = await collection.findOneAndUpdate(
+      { _id: key },
+      [
+        { $set: { tokens: refilled, updatedAt: now } },
+        {
+          $set: {
+            allowed: { $gte: ['$tokens', 1] },
+            tokens: { $cond: [{ $gte: ['$tokens', 1] }, { $subtract: ['$tokens', cost] }, '$tokens'] },
+          },
+        },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    return bucket ? toState(bucket.tokens, bucket.allowed, config) : toState(config.capacity, true, config);
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = process.env.RATE_LIMIT_STORE === 'mongo'
+      ? new MongoRateLimitStore(getDatabase)
+      : new MemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+export function getRateLimitConfig(): RateLimitConfig {
+  const capacity = parseInt(process.env.RATE_LIMIT_CAPACITY ?? '', 10);
+  const refillPerSecond = parseFloat(process.env.RATE_LIMIT_REFILL_PER_SECOND ?? '');
+  return {
+    capacity: isNaN(capacity) || capacity < 0 ? 60 : capacity,
+    refillPerSecond: refillPerSecond > 0 ? refillPerSecond : 1,
+  };
+}
+
+export function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  return isNaN(hops) || hops < 0 ? 1 : hops;
+}
+
+// Each trusted proxy appends the address it got the request from to
+// X-Forwarded-For, so the client is the entry that many hops from the right;
+// entries further left come from the client and can be anything. With
+// TRUSTED_PROXY_HOPS=0 the header is ignored for the platform's X-Real-IP.
+export function getClientIp(request: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Hash IPs so the collection does not hold client addresses
+function clientIpKey(prefix: string, request: NextRequest): string {
+  return `${prefix}:${createHash('sha256').update(getClientIp(request)).digest('hex')}`;
+}
+
+export type RateLimitResult = RateLimitState & { limit: number };
+
+async function takeTokens(key: string, cost: number): Promise<RateLimitResult> {
+  const config = getRateLimitConfig();
+  if (config.capacity === 0) {
+    return { allowed: true, remaining: 0, retryAfterMs: 0, resetMs: 0, limit: 0 };
+  }
+
+  const state = await getRateLimitStore().take(key, config, cost);
+  return { ...state, limit: config.capacity };
+}
+
+// Take a token for the request's client: its API key when it has one, its IP otherwise
+export async function takeRateLimitToken(request: NextRequest, apiKey: WithId<ApiKey> | null): Promise<RateLimitResult> {
+  return takeTokens(apiKey ? `key:${apiKey._id.toHexString()}` : clientIpKey('ip', request), 1);
+}
+
+// Invalid API keys spend tokens from a bucket of the client IP, which is
+// checked before each key lookup, so guessing keys is throttled without a
+// database query per guess
+export async function checkAuthFailureLimit(request: NextRequest): Promise<RateLimitResult> {
+  return takeTokens(clientIpKey('auth', request), 0);
+}
+
+export async function recordAuthFailure(request: NextRequest): Promise<void> {
+  await takeTokens(clientIpKey('auth', request), 1);
+}
+
+export function rateLimitResponse(request: NextRequest, result: RateLimitResult) {
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  return NextResponse.json(
+    { error: 'Too many requests. Try again later.', retryAfter },
+    {
+      status: 429,
+      headers: {
+        ...getCorsHeaders(request),
+        'Retry-After': String(retryAfter),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+      }
+    }
+  );
+}
@@ -0,0 +1,148 @@
+import { AnyBulkWriteOperation, Db, ObjectId, WithId } from 'mongodb';
+import { z } from 'zod';
+import { buildTalentQuery, prepareTalentQuery, TalentFilters, talentFiltersSchema } from '@/lib/talent-query';
+import { PIPELINE_STAGES, PipelineStage } from '@/lib/talent-annotations';
+
+// A name and the filters of GET /api/talent, with list filters as JSON arrays
+export const savedSearchRequestSchema = talentFiltersSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+export type SavedSearch = {
+  name: string;
+  // The exact filters of GET /api/talent
+  query: TalentFilters;
+  createdAt: Date;
+  lastSeenAt?: Date;
+};
+
+// A talent inserted or changed since the search was last marked seen.
+// Marking a search seen deletes its matches, so only unseen ones are stored.
+export type SavedSearchMatch = {
+  searchId: ObjectId;
+  talent_id: number;
+  // How the talent first matched: inserted, or updated while already stored
+  status: 'inserted' | 'updated';
+  matchedAt: Date;
+};
+
+let indexPromise: Promise<string | null> | null = null;
+
+function getSavedSearches(db: Db) {
+  return db.collection<SavedSearch>('saved_searches');
+}
+
+function getMatches(db: Db) {
+  const collection = db.collection<SavedSearchMatch>('saved_search_matches');
+  if (!indexPromise) {
+    indexPromise = collection.createIndex({ searchId: 1, talent_id: 1 }, { unique: true }).catch((error: unknown) => {
+      console.error('Error creating saved_search_matches index:', error);
+      indexPromise = null;
+      return null;
+    });
+  }
+  return collection;
+}
+
+// Searches saved before a filter existed lack it, and stored single values
+// for role and nationality; parsing fills in the current shape. Stages were not
+// checked when saving at first, so one that is not a pipeline stage is dropped.
+function getSavedSearchFilters(savedSearch: SavedSearch): TalentFilters {
+  const { stage, ...query } = savedSearch.query;
+  return talentFiltersSchema.parse({
+    ...query,
+    ...(PIPELINE_STAGES.includes(stage as PipelineStage) ? { stage } : {}),
+  });
+}
+
+// API representation of a saved search
+export function serializeSavedSearch(savedSearch: WithId<SavedSearch>, unseenCount = 0) {
+  const { _id, ...rest } = savedSearch;
+  return { id: _id.toHexString(), ...rest, query: getSavedSearchFilters(savedSearch), unseenCount };
+}
+
+export async function createSavedSearch(db: Db, request: z.infer<typeof savedSearchRequestSchema>) {
+  const { name, ...query } = request;
+  const savedSearch: SavedSearch = { name, query, createdAt: new Date() };
+  const result = await getSavedSearches(db).insertOne(savedSearch);
+  return { _id: result.insertedId, ...savedSearch };
+}
+
+export async function getSavedSearch(db: Db, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+  return getSavedSearches(db).findOne({ _id: new ObjectId(id) });
+}
+
+// Saved searches with the number of unseen matches of each
+export async function listSavedSearches(db: Db) {
+  const [savedSearches, counts] = await Promise.all([
+    getSavedSearches(db).find({}).sort({ name: 1 }).toArray(),
+    getMatches(db)
+      .aggregate<{ _id: ObjectId; count: number }>([{ $group: { _id: '$searchId', count: { $sum: 1 } } }])
+      .toArray(),
+  ]);
+
+  const countById = new Map(counts.map(count => [count._id.toHexString(), count.count]));
+  return savedSearches.map(savedSearch => serializeSavedSearch(savedSearch, countById.get(savedSearch._id.toHexString()) ?? 0));
+}
+
+export async function deleteSavedSearch(db: Db, id: ObjectId) {
+  await getMatches(db).deleteMany({ searchId: id });
+  return getSavedSearches(db).deleteOne({ _id: id });
+}
+
+export async function listUnseenMatches(db: Db, id: ObjectId) {
+  return getMatches(db).find({ searchId: id }).sort({ matchedAt: -1 }).toArray();
+}
+
+// Returns the number of matches cleared
+export async function markSavedSearchSeen(db: Db, id: ObjectId) {
+  const seenAt = new Date();
+  // Matches recorded after this point stay unseen
+  const result = await getMatches(db).deleteMany({ searchId: id, matchedAt: { $lte: seenAt } });
+  await getSavedSearches(db).updateOne({ _id: id }, { $set: { lastSeenAt: seenAt } });
+  return result.deletedCount;
+}
+
+// Record talents that were just inserted or changed as new matches of every
+// saved search they now satisfy
+export async function recordSavedSearchMatches(
+  db: Db,
+  changed: Array<{ talentId: number; status: 'inserted' | 'updated' }>
+) {
+  if (changed.length === 0) return;
+
+  const savedSearches = await getSavedSearches(db).find({}).toArray();
+  if (savedSearches.length === 0) return;
+
+  const talents = db.collection('talents');
+  const statusById = new Map(changed.map(({ talentId, status }) => [talentId, status]));
+  const talentIds = Array.from(statusById.keys());
+  const matchedAt = new Date();
+  const operations: AnyBulkWriteOperation<SavedSearchMatch>[] = [];
+
+  for (const savedSearch of savedSearches) {
+    const query = await prepareTalentQuery(db, getSavedSearchFilters(savedSearch));
+    const matches = await talents
+      .find({ $and: [buildTalentQuery(query), { talent_id: { $in: talentIds } }] }, { projection: { talent_id: 1 } })
+      .toArray();
+
+    matches.forEach(match => {
+      const talentId = match.talent_id as number;
+      operations.push({
+        updateOne: {
+          filter: { searchId: savedSearch._id, talent_id: talentId },
+          update: {
+            $set: { matchedAt },
+            $setOnInsert: { status: statusById.get(talentId) ?? 'updated' },
+          },
+          upsert: true,
+        },
+      });
+    });
+  }
+
+  if (operations.length > 0) {
+    await getMatches(db).bulkWrite(operations, { ordered: false });
+  }
+}
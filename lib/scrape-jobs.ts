@@ -0,0 +1,349 @@
+import { createHash } from 'crypto';
+import { Db, ObjectId, WithId } from 'mongodb';
+import { z } from 'zod';
+import {
+  delay,
+  fetchDetailsForTalents,
+  fetchTalentsPage,
+  pickListFields,
+  resolveQueryUrl,
+  ScrapeFailure,
+  ScrapeOptions,
+} from '@/lib/scraper';
+import { bulkUpsertTalents, markTalentsSeen, markUnseenTalentsStale, refreshListFields } from '@/lib/talent-store';
+
+// Keep job documents bounded even when a scrape fails en masse
+const MAX_STORED_FAILURES = 1000;
+
+// Largest page range a single job may cover
+const MAX_PAGES_PER_JOB = 500;
+
+// Talents are saved and checkpointed in batches of at least this many
+const MIN_SAVE_BATCH_SIZE = 5;
+
+export const scrapeJobRequestSchema = z
+  .object({
+    queryUrl: z.string().min(1),
+    startPage: z.number().int().min(1).default(1),
+    endPage: z.number().int().min(1).optional(),
+    delayMs: z.number().int().min(0).max(60000).default(1000),
+    concurrency: z.number().int().min(1).max(10).default(1),
+    freshnessHours: z.number().positive().max(24 * 365).optional(),
+  })
+  .transform(request => ({ ...request, endPage: request.endPage ?? request.startPage + 9 }))
+  .refine(request => request.endPage >= request.startPage, {
+    message: 'must be greater than or equal to startPage',
+    path: ['endPage'],
+  })
+  .refine(request => request.endPage - request.startPage < MAX_PAGES_PER_JOB, {
+    message: `must be within ${MAX_PAGES_PER_JOB} pages of startPage`,
+    path: ['endPage'],
+  });
+
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type ScrapeJob = {
+  status: ScrapeJobStatus;
+  params: ScrapeOptions;
+  progress: {
+    currentPage: number | null;
+    pagesCompleted: number;
+    totalPages: number;
+    talentsProcessed: number;
+  };
+  counts: {
+    saved: number;
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    // Talents within the freshness window that skipped the detail fetch
+    fresh: number;
+    errors: number;
+    // Talents flagged stale when the run finished
+    stale?: number;
+  };
+  // Where an interrupted run resumes: after lastCompletedPage, skipping
+  // processedTalentIds if it stopped part-way through `page`
+  checkpoint: {
+    lastCompletedPage: number | null;
+    page: number | null;
+    processedTalentIds: number[];
+  };
+  failures: ScrapeFailure[];
+  // Set on completion: whether the run listed every page of its query, which
+  // is what lets it flag the talents it did not list as stale
+  coveredAllPages?: boolean;
+  createdAt: Date;
+  startedAt?: Date;
+  resumedAt?: Date;
+  heartbeatAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+};
+
+function getJobs(db: Db) {
+  return db.collection<ScrapeJob>('scrape_jobs');
+}
+
+// API representation of a job
+export function serializeScrapeJob(job: WithId<ScrapeJob>) {
+  const { _id, ...rest } = job;
+  return { id: _id.toHexString(), ...rest, stalled: isScrapeJobStalled(job) };
+}
+
+export async function createScrapeJob(db: Db, params: ScrapeOptions): Promise<WithId<ScrapeJob>> {
+  // Fail fast on query URLs outside the upstream API
+  resolveQueryUrl(params.queryUrl);
+
+  const job: ScrapeJob = {
+    status: 'queued',
+    params,
+    progress: {
+      currentPage: null,
+      pagesCompleted: 0,
+      totalPages: params.endPage - params.startPage + 1,
+      talentsProcessed: 0,
+    },
+    counts: { saved: 0, inserted: 0, updated: 0, unchanged: 0, fresh: 0, errors: 0, stale: 0 },
+    checkpoint: { lastCompletedPage: null, page: null, processedTalentIds: [] },
+    failures: [],
+    createdAt: new Date(),
+  };
+
+  const result = await getJobs(db).insertOne(job);
+  return { _id: result.insertedId, ...job };
+}
+
+export async function getScrapeJob(db: Db, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+  return getJobs(db).findOne({ _id: new ObjectId(id) });
+}
+
+export async function listScrapeJobs(db: Db, limit = 20) {
+  return getJobs(db)
+    .find({}, { projection: { failures: 0 } })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+// Identifies a query regardless of page, so runs of the same query can be
+// compared; short enough to use as a field name (`seenBy.<key>`)
+export function getQueryKey(queryUrl: URL): string {
+  const url = new URL(queryUrl);
+  url.searchParams.delete('page');
+  url.searchParams.sort();
+  return createHash('sha256').update(url.toString()).digest('hex').slice(0, 16);
+}
+
+// Talents whose list-level fields were refreshed without a detail fetch
+async function findFreshTalents(db: Db, talentIds: number[], freshnessHours: number) {
+  const cutoff = new Date(Date.now() - freshnessHours * 60 * 60 * 1000);
+  const docs = await db
+    .collection('talents')
+    .find({ talent_id: { $in: talentIds }, updatedAt: { $gt: cutoff } }, { projection: { talent_id: 1, updatedAt: 1 } })
+    .toArray();
+  return new Map(docs.map(doc => [doc.talent_id as number, doc.updatedAt as Date]));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Fetch list → fetch details → merge → save, a few talents at a time, recording
+// progress and a checkpoint on the job so an interrupted run can be resumed.
+// Every listed talent is marked as seen by the run (the job id); a run that
+// lists every page of its query then flags the talents it missed as stale.
+export async function runScrapeJob(db: Db, jobId: ObjectId) {
+  const jobs = getJobs(db);
+  const job = await jobs.findOneAndUpdate(
+    { _id: jobId, status: 'queued' },
+    { $set: { status: 'running', startedAt: new Date(), heartbeatAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!job) return;
+
+  const { params, checkpoint } = job;
+  const batchSize = Math.max(params.concurrency, MIN_SAVE_BATCH_SIZE);
+  const firstPage = checkpoint.lastCompletedPage === null ? params.startPage : checkpoint.lastCompletedPage + 1;
+  const runId = jobId.toHexString();
+  let reachedLastPage = false;
+
+  try {
+    const queryUrl = resolveQueryUrl(params.queryUrl);
+    const queryKey = getQueryKey(queryUrl);
+
+    for (let page = firstPage; page <= params.endPage; page++) {
+      await jobs.updateOne({ _id: jobId }, { $set: { 'progress.currentPage': page, heartbeatAt: new Date() } });
+
+      let listPage;
+      try {
+        listPage = await fetchTalentsPage(queryUrl, page);
+      } catch (error: unknown) {
+        const reason = error instanceof Error ? error.message : String(error);
+        // A page that cannot be listed fails the run; the checkpoint lets it be resumed here
+        await jobs.updateOne(
+          { _id: jobId },
+          { $push: { failures: { $each: [{ stage: 'list', page, reason }], $slice: -MAX_STORED_FAILURES } } }
+        );
+        throw error;
+      }
+
+      // Skip talents an interrupted run already processed on this page
+      const processed = new Set(checkpoint.page === page ? checkpoint.processedTalentIds : []);
+      const remaining = listPage.results.filter(talent => !processed.has(talent.id));
+
+      const fresh = params.freshnessHours
+        ? await findFreshTalents(db, remaining.map(talent => talent.id), params.freshnessHours)
+        : new Map<number, Date>();
+
+      for (const batch of chunk(remaining, batchSize)) {
+        const stale = batch.filter(talent => !fresh.has(talent.id));
+        const { talents, failures } = await fetchDetailsForTalents(stale, page, params);
+
+        const saved = [
+          ...(talents.length > 0 ? await bulkUpsertTalents(db, talents) : []),
+          ...(stale.length < batch.length
+            ? await refreshListFields(
+                db,
+                batch
+                  .filter(talent => fresh.has(talent.id))
+                  .map(talent => ({ id: talent.id, updatedAt: fresh.get(talent.id) as Date, fields: pickListFields(talent) }))
+              )
+            : []),
+        ];
+        await markTalentsSeen(db, batch.map(talent => talent.id), runId, queryKey);
+
+        const counts = {
+          saved: 0,
+          inserted: 0,
+          updated: 0,
+          unchanged: 0,
+          fresh: batch.length - stale.length,
+          errors: failures.length,
+        };
+        saved.forEach(result => {
+          if (result.status === 'rejected') {
+            counts.errors++;
+            failures.push({ stage: 'save', page, talentId: result.id ?? undefined, reason: result.reason || 'Rejected' });
+            return;
+          }
+          counts.saved++;
+          counts[result.status]++;
+        });
+
+        batch.forEach(talent => processed.add(talent.id));
+        await jobs.updateOne(
+          { _id: jobId },
+          {
+            $set: {
+              'checkpoint.page': page,
+              'checkpoint.processedTalentIds': Array.from(processed),
+              heartbeatAt: new Date(),
+            },
+            $inc: {
+              'progress.talentsProcessed': batch.length,
+              'counts.saved': counts.saved,
+              'counts.inserted': counts.inserted,
+              'counts.updated': counts.updated,
+              'counts.unchanged': counts.unchanged,
+              'counts.fresh': counts.fresh,
+              'counts.errors': counts.errors,
+            },
+            $push: { failures: { $each: failures, $slice: -MAX_STORED_FAILURES } },
+          }
+        );
+      }
+
+      await jobs.updateOne(
+        { _id: jobId },
+        {
+          $set: {
+            'checkpoint.lastCompletedPage': page,
+            'checkpoint.page': null,
+            'checkpoint.processedTalentIds': [],
+            'progress.pagesCompleted': page - params.startPage + 1,
+          },
+        }
+      );
+
+      // Check if there's a next page
+      if (!listPage.next) {
+        reachedLastPage = true;
+        break;
+      }
+
+      // Delay between page requests
+      await delay(params.delayMs);
+    }
+
+    // Talents from before the first page or past endPage were not looked for
+    const coveredAllPages = params.startPage === 1 && reachedLastPage;
+    const flagged = coveredAllPages
+      ? await markUnseenTalentsStale(db, runId, queryKey, job.startedAt ?? job.createdAt)
+      : 0;
+
+    await jobs.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: 'completed',
+          finishedAt: new Date(),
+          coveredAllPages,
+          'counts.stale': flagged,
+          'progress.currentPage': null,
+        },
+      }
+    );
+  } catch (error: unknown) {
+    console.error(`Scrape job ${jobId.toHexString()} failed:`, error);
+    await jobs.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: 'failed',
+          finishedAt: new Date(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      }
+    );
+  }
+}
+
+// A running job that has not recorded progress for this long was interrupted,
+// e.g. by a server restart. One batch of detail fetches must fit well inside it.
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+export function isScrapeJobStalled(job: ScrapeJob) {
+  const lastActivity = job.heartbeatAt ?? job.createdAt;
+  return (job.status === 'running' || job.status === 'queued') && Date.now() - lastActivity.getTime() > STALLED_AFTER_MS;
+}
+
+// Requeue a failed or interrupted job; runScrapeJob then continues from its checkpoint
+export async function resumeScrapeJob(db: Db, id: string): Promise<{ job: WithId<ScrapeJob> } | { error: string; status: number }> {
+  const job = await getScrapeJob(db, id);
+  if (!job) {
+    return { error: 'Scrape job not found', status: 404 };
+  }
+  if (job.status !== 'failed' && !isScrapeJobStalled(job)) {
+    return { error: `Scrape job is ${job.status} and cannot be resumed`, status: 409 };
+  }
+
+  // Only one caller may requeue a given state of the job
+  const resumed = await getJobs(db).findOneAndUpdate(
+    { _id: job._id, status: job.status, heartbeatAt: job.heartbeatAt },
+    {
+      $set: { status: 'queued', resumedAt: new Date(), heartbeatAt: new Date() },
+      $unset: { error: '', finishedAt: '' },
+    },
+    { returnDocument: 'after' }
+  );
+  if (!resumed) {
+    return { error: 'Scrape job was resumed by another request', status: 409 };
+  }
+  return { job: resumed };
+}
@@ -0,0 +1,146 @@
+import { Document } from 'mongodb';
+
+// Upstream Braintrust API; point it at a local mock server for testing
+export function getUpstreamApiBase() {
+  return (process.env.BRAINTRUST_API_BASE || 'https://app.usebraintrust.com/api').replace(/\/+$/, '');
+}
+
+// Per-request timeout for upstream calls
+const REQUEST_TIMEOUT_MS = 30000;
+
+export type TalentListItem = Document & {
+  id: number;
+  search_score?: number;
+  matching_skills_percent?: number;
+  personal_rank?: number[];
+};
+
+export type TalentListPage = {
+  results: TalentListItem[];
+  next?: string | null;
+  total_count?: number;
+};
+
+export type ScrapeOptions = {
+  queryUrl: string;
+  startPage: number;
+  endPage: number;
+  delayMs: number;
+  concurrency: number;
+  // Skip the detail fetch for talents saved within this many hours
+  freshnessHours?: number;
+};
+
+export type ScrapeFailure = {
+  stage: 'list' | 'details' | 'save';
+  page: number;
+  talentId?: number;
+  reason: string;
+};
+
+// Fields that come from the list endpoint rather than /freelancers/{id}
+export const LIST_FIELDS = ['search_score', 'matching_skills_percent', 'personal_rank'] as const;
+
+// Resolve a list query against the upstream base. Relative queries such as
+// `/talent/?role=5` or `talent/?role=5` are allowed; absolute URLs must stay on the upstream origin.
+export function resolveQueryUrl(queryUrl: string): URL {
+  const apiBase = getUpstreamApiBase();
+  const url = /^https?:\/\//i.test(queryUrl)
+    ? new URL(queryUrl)
+    : new URL(`${apiBase}/${queryUrl.replace(/^\/+/, '')}`);
+
+  if (url.origin !== new URL(apiBase).origin) {
+    throw new Error(`Query URL must be on ${new URL(apiBase).origin}`);
+  }
+  return url;
+}
+
+export function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function fetchJson(url: string) {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Fetch list of talents from a specific page
+export async function fetchTalentsPage(queryUrl: URL, page: number): Promise<TalentListPage> {
+  const url = new URL(queryUrl);
+  url.searchParams.set('page', String(page));
+
+  const data = await fetchJson(url.toString());
+  if (!data || !Array.isArray(data.results)) {
+    throw new Error(`No results array found for page ${page}`);
+  }
+  return data;
+}
+
+// Fetch detailed information for a specific talent
+export async function fetchTalentDetails(talentId: number): Promise<Document> {
+  return fetchJson(`${getUpstreamApiBase()}/freelancers/${talentId}`);
+}
+
+// Merge basic info from the list with the detailed info
+export function mergeTalentDetails(listItem: Partial<TalentListItem>, details: Document): Document {
+  return { ...details, ...pickListFields(listItem) };
+}
+
+export function pickListFields(listItem: Partial<TalentListItem>): Document {
+  return Object.fromEntries(LIST_FIELDS.map(field => [field, listItem[field]]));
+}
+
+// Run `fn` over `items` with at most `concurrency` calls in flight
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// Fetch and merge the details of talents from one list page
+export async function fetchDetailsForTalents(
+  items: TalentListItem[],
+  page: number,
+  options: Pick<ScrapeOptions, 'concurrency' | 'delayMs'>
+): Promise<{ talents: Document[]; failures: ScrapeFailure[] }> {
+  const failures: ScrapeFailure[] = [];
+
+  const merged = await mapWithConcurrency(items, options.concurrency, async (talent) => {
+    try {
+      const details = await fetchTalentDetails(talent.id);
+      return mergeTalentDetails(talent, details);
+    } catch (error: unknown) {
+      failures.push({
+        stage: 'details',
+        page,
+        talentId: talent.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    } finally {
+      // Delay between talent requests
+      await delay(options.delayMs);
+    }
+  });
+
+  return {
+    talents: merged.filter((talent): talent is Document => talent !== null),
+    failures,
+  };
+}
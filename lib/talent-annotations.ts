@@ -0,0 +1,115 @@
+import { Db, Document } from 'mongodb';
+import { z } from 'zod';
+
+export const PIPELINE_STAGES = ['new', 'contacted', 'interviewing', 'hired', 'rejected'] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+// The team's own notes on a talent. Kept out of `talents` so re-ingesting
+// scraped data never overwrites them.
+export type TalentAnnotation = {
+  talent_id: number;
+  notes: string;
+  tags: string[];
+  stage: PipelineStage;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// Only the fields present are changed
+export const annotationUpdateSchema = z
+  .object({
+    notes: z.string().max(10000).optional(),
+    tags: z
+      .array(z.string().trim().min(1).max(50))
+      .max(50)
+      .transform(tags => Array.from(new Set(tags)))
+      .optional(),
+    stage: z.enum(PIPELINE_STAGES).optional(),
+  })
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'must include notes, tags or stage',
+  });
+
+export type AnnotationUpdate = z.infer<typeof annotationUpdateSchema>;
+
+let indexPromise: Promise<string | null> | null = null;
+
+function getAnnotations(db: Db) {
+  const collection = db.collection<TalentAnnotation>('talent_annotations');
+  if (!indexPromise) {
+    indexPromise = collection.createIndex({ talent_id: 1 }, { unique: true }).catch((error: unknown) => {
+      console.error('Error creating talent_annotations index:', error);
+      indexPromise = null;
+      return null;
+    });
+  }
+  return collection;
+}
+
+// API representation; talents without an annotation are at the `new` stage
+export function serializeAnnotation(annotation: TalentAnnotation | null, talentId: number) {
+  return {
+    talent_id: talentId,
+    notes: annotation?.notes ?? '',
+    tags: annotation?.tags ?? [],
+    stage: annotation?.stage ?? 'new',
+    updatedAt: annotation?.updatedAt ?? null,
+  };
+}
+
+export async function getAnnotation(db: Db, talentId: number) {
+  return getAnnotations(db).findOne({ talent_id: talentId }, { projection: { _id: 0 } });
+}
+
+// Annotations of several talents, keyed by talent_id
+export async function getAnnotationsByTalentId(db: Db, talentIds: number[]) {
+  const annotations = await getAnnotations(db)
+    .find({ talent_id: { $in: talentIds } }, { projection: { _id: 0 } })
+    .toArray();
+  return new Map(annotations.map(annotation => [annotation.talent_id, annotation]));
+}
+
+export async function updateAnnotation(db: Db, talentId: number, update: AnnotationUpdate) {
+  const now = new Date();
+  const set: Partial<TalentAnnotation> = { updatedAt: now };
+  // Fields not being set start from their defaults on the first update
+  const setOnInsert: Partial<TalentAnnotation> = { createdAt: now };
+
+  if (update.notes !== undefined) set.notes = update.notes;
+  else setOnInsert.notes = '';
+  if (update.tags !== undefined) set.tags = update.tags;
+  else setOnInsert.tags = [];
+  if (update.stage !== undefined) set.stage = update.stage;
+  else setOnInsert.stage = 'new';
+
+  return getAnnotations(db).findOneAndUpdate(
+    { talent_id: talentId },
+    { $set: set, $setOnInsert: setOnInsert },
+    { upsert: true, returnDocument: 'after', projection: { _id: 0 } }
+  );
+}
+
+// Tags in use, for filter suggestions
+export async function listAnnotationTags(db: Db): Promise<string[]> {
+  const tags = await getAnnotations(db).distinct('tags');
+  return tags.sort((a, b) => a.localeCompare(b));
+}
+
+// Turn tag and stage filters into a talent_id match on the talents collection,
+// or null when neither is set
+export async function buildAnnotationMatch(db: Db, tag: string, stage: string): Promise<Document | null> {
+  if (!tag && !stage) return null;
+
+  // Talents without an annotation are at the `new` stage, so exclude the others instead
+  if (!tag && stage === 'new') {
+    const others = await getAnnotations(db).distinct('talent_id', { stage: { $ne: 'new' } });
+    return { talent_id: { $nin: others } };
+  }
+
+  const match: Document = {};
+  if (tag) match.tags = tag;
+  if (stage) match.stage = stage;
+  const talentIds = await getAnnotations(db).distinct('talent_id', match);
+  return { talent_id: { $in: talentIds } };
+}
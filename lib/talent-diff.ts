@@ -0,0 +1,54 @@
+import { Document } from 'mongodb';
+
+export type FieldChange = {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+};
+
+// Bookkeeping fields that are not part of the talent's data
+export const BOOKKEEPING_FIELDS = new Set(['_id', 'updatedAt', 'version', 'lastSeenAt', 'lastSeenRunId', 'seenBy', 'stale', 'staleSince', 'staleFor']);
+
+function isPlainObject(value: unknown): value is Document {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    return aKeys.length === bKeys.length && aKeys.every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// Field-level diff of what a $set of `next` would change in `previous`.
+// Nested objects are walked (e.g. `user.introduction_headline`); arrays are compared whole.
+export function computeDiff(previous: Document, next: Document, prefix = ''): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  Object.keys(next).forEach(key => {
+    if (!prefix && BOOKKEEPING_FIELDS.has(key)) return;
+
+    const field = prefix ? `${prefix}.${key}` : key;
+    const from = previous[key];
+    const to = next[key];
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      changes.push(...computeDiff(from, to, field));
+      // $set replaces the whole sub-document, so keys missing from `to` are removed
+      Object.keys(from)
+        .filter(nestedKey => !(nestedKey in to))
+        .forEach(nestedKey => changes.push({ field: `${field}.${nestedKey}`, from: from[nestedKey] }));
+    } else if (!isEqual(from, to)) {
+      changes.push({ field, from, to });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,24 @@
+// How many talents the compare page lays side by side
+export const MIN_COMPARED_TALENTS = 2;
+export const MAX_COMPARED_TALENTS = 4;
+
+// Helper function to get initials from name
+export function getInitials(name: string) {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length >= 2) {
+    return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+  }
+  return name.substring(0, 2).toUpperCase();
+}
+
+// Map Braintrust role colors to badge classes
+export function getRoleColor(color?: string | null) {
+  const colorMap: Record<string, string> = {
+    'violet': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+    'green': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    'blue': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+    'teal': 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+    'orange': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  };
+  return (color && colorMap[color]) || 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
+}
@@ -0,0 +1,98 @@
+import { Document } from 'mongodb';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export type ExportColumn = {
+  name: string;
+  value: (talent: Document) => unknown;
+};
+
+type ExternalProfileDocument = {
+  public_url?: string;
+  site?: { name?: string };
+};
+
+function profilesOf(talent: Document): ExternalProfileDocument[] {
+  return Array.isArray(talent.external_profiles) ? talent.external_profiles : [];
+}
+
+// Columns available in CSV exports, in their default order
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { name: 'id', value: talent => talent.id },
+  { name: 'name', value: talent => talent.user?.public_name },
+  { name: 'first_name', value: talent => talent.user?.first_name },
+  { name: 'last_name', value: talent => talent.user?.last_name },
+  { name: 'title', value: talent => talent.user?.title },
+  { name: 'headline', value: talent => talent.user?.introduction_headline },
+  { name: 'introduction', value: talent => talent.user?.introduction },
+  { name: 'role', value: talent => talent.role?.name },
+  { name: 'location', value: talent => talent.location },
+  { name: 'country', value: talent => talent.country },
+  { name: 'available', value: talent => talent.availability_for_work },
+  { name: 'total_jobs', value: talent => talent.total_jobs },
+  { name: 'average_rating', value: talent => talent.average_rating },
+  { name: 'review_count', value: talent => talent.review_count },
+  { name: 'superpowers', value: talent => (talent.superpowers || []).map((superpower: Document) => superpower.name).join('; ') },
+  { name: 'external_profiles', value: talent => profilesOf(talent).map(profile => profile.public_url).filter(Boolean).join(' ') },
+  { name: 'braintrust_url', value: talent => `https://app.usebraintrust.com/talent/${talent.id}` },
+  { name: 'updatedAt', value: talent => (talent.updatedAt instanceof Date ? talent.updatedAt.toISOString() : talent.updatedAt) },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id', 'name', 'title', 'role', 'location', 'country', 'available',
+  'total_jobs', 'average_rating', 'review_count', 'external_profiles', 'braintrust_url',
+];
+
+// `profile:<site>` columns hold the URL of one external profile site, e.g. profile:GitHub
+const PROFILE_COLUMN_PREFIX = 'profile:';
+
+function profileColumn(name: string): ExportColumn {
+  const site = name.slice(PROFILE_COLUMN_PREFIX.length).toLowerCase();
+  return {
+    name,
+    value: talent => profilesOf(talent)
+      .filter(profile => profile.site?.name?.toLowerCase() === site)
+      .map(profile => profile.public_url)
+      .filter(Boolean)
+      .join(' '),
+  };
+}
+
+// Resolve a comma-separated `columns` parameter
+export function resolveExportColumns(param: string | null): { columns: ExportColumn[] } | { error: string } {
+  const names = param
+    ? param.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_EXPORT_COLUMNS;
+
+  const unknown: string[] = [];
+  const columns = names.flatMap(name => {
+    if (name.toLowerCase().startsWith(PROFILE_COLUMN_PREFIX) && name.length > PROFILE_COLUMN_PREFIX.length) {
+      return [profileColumn(name)];
+    }
+    const column = EXPORT_COLUMNS.find(candidate => candidate.name === name);
+    if (!column) unknown.push(name);
+    return column ? [column] : [];
+  });
+
+  if (unknown.length > 0) {
+    return {
+      error: `Unknown columns: ${unknown.join(', ')}. Valid columns: ${EXPORT_COLUMNS.map(column => column.name).join(', ')}, or ${PROFILE_COLUMN_PREFIX}<site>`,
+    };
+  }
+
+  return columns.length > 0 ? { columns } : { error: 'No columns selected.' };
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating cell contents as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(toCsvValue).join(',') + '\r\n';
+}
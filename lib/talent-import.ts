@@ -0,0 +1,188 @@
+import { Db, Document } from 'mongodb';
+import { mergeTalentDetails } from '@/lib/scraper';
+import { BOOKKEEPING_FIELDS, FieldChange } from '@/lib/talent-diff';
+import { parseTalentId, saveTalentDocuments, SaveResult, TalentDocument, toTalentDocument } from '@/lib/talent-store';
+import { ValidationIssue } from '@/lib/validation';
+
+// Most records one import accepts, counting each list item
+export const MAX_IMPORT_RECORDS = 5000;
+
+// A file or request body holding one JSON document, or NDJSON
+export type ImportSource = {
+  name: string;
+  text: string;
+};
+
+// An item of a Braintrust list response, a /freelancers/{id} response, or a
+// document from GET /api/talent/export
+export type ImportRecordKind = 'list' | 'detail' | 'export';
+
+export type ImportRecord = {
+  kind: ImportRecordKind;
+  record: Document;
+  // e.g. `list.json results[3]` or `talents.ndjson line 12`
+  source: string;
+};
+
+export type ImportStatus = 'inserted' | 'updated' | 'unchanged' | 'invalid';
+
+export type ImportResult = {
+  id: number | null;
+  status: ImportStatus;
+  // The records merged into this talent, or the one that could not be read
+  sources: string[];
+  reason?: string;
+  errors?: ValidationIssue[];
+  changes?: FieldChange[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  total: number;
+  summary: Record<ImportStatus, number>;
+  results: ImportResult[];
+};
+
+// Fields of an export that are not part of the upstream talent; `score` is
+// the text score of a search export
+const EXPORT_ONLY_FIELDS = ['talent_id', 'annotation', 'highlights', 'score'];
+
+function isPlainObject(value: unknown): value is Document {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Turn an exported document back into an upstream payload: unknown fields
+// come back out of `raw`, bookkeeping fields are dropped
+function fromExportedTalent(talent: Document): Document {
+  const { raw, ...fields } = talent;
+  const record: Document = { ...(isPlainObject(raw) ? raw : {}), ...fields, id: fields.id ?? fields.talent_id };
+  [...BOOKKEEPING_FIELDS, ...EXPORT_ONLY_FIELDS].forEach(field => {
+    delete record[field];
+  });
+  return record;
+}
+
+type ParsedValue = { value?: unknown; error?: string; source: string };
+
+// One JSON document (an array is read item by item), or NDJSON
+function parseSource({ name, text }: ImportSource): ParsedValue[] {
+  const trimmed = text.trim();
+  if (trimmed === '') return [];
+
+  try {
+    const value = JSON.parse(trimmed);
+    return Array.isArray(value)
+      ? value.map((item, index) => ({ value: item, source: `${name}[${index}]` }))
+      : [{ value, source: name }];
+  } catch {
+    // Not a single document; read it as NDJSON
+  }
+
+  return trimmed.split('\n').flatMap((line, lineIndex): ParsedValue[] => {
+    if (line.trim() === '') return [];
+    const source = `${name} line ${lineIndex + 1}`;
+    try {
+      return [{ value: JSON.parse(line), source }];
+    } catch {
+      return [{ error: 'Invalid JSON', source }];
+    }
+  });
+}
+
+// Read list responses (`{ results: [...] }`), detail responses and exported
+// documents out of the sources. Values that are none of these are invalid.
+export function parseImportSources(sources: ImportSource[]): { records: ImportRecord[]; invalid: ImportResult[] } {
+  const records: ImportRecord[] = [];
+  const invalid: ImportResult[] = [];
+
+  sources.flatMap(parseSource).forEach(({ value, error, source }) => {
+    if (error || !isPlainObject(value)) {
+      invalid.push({ id: null, status: 'invalid', sources: [source], reason: error || 'Record must be a JSON object' });
+      return;
+    }
+
+    if (Array.isArray(value.results)) {
+      value.results.forEach((item: unknown, index: number) => {
+        records.push({ kind: 'list', record: item as Document, source: `${source} results[${index}]` });
+      });
+    } else if ('talent_id' in value) {
+      records.push({ kind: 'export', record: fromExportedTalent(value), source });
+    } else {
+      records.push({ kind: 'detail', record: value, source });
+    }
+  });
+
+  return { records, invalid };
+}
+
+function toImportResult(result: SaveResult, sources: string[]): ImportResult {
+  if (result.status === 'rejected') {
+    return { id: result.id, status: 'invalid', sources, reason: result.reason, errors: result.errors };
+  }
+  return { id: result.id, status: result.status, sources, changes: result.changes };
+}
+
+// Merge each talent's list item with its details, as scrape runs do, and upsert
+// the results. Details and exports are imported on their own when no list item
+// goes with them, and list items when no details do. The last record of each
+// kind wins for a talent. With `dryRun`, nothing is written.
+export async function importTalents(
+  db: Db,
+  { records, invalid }: { records: ImportRecord[]; invalid: ImportResult[] },
+  { dryRun }: { dryRun: boolean }
+): Promise<ImportReport> {
+  const talents = new Map<number, { list?: ImportRecord; detail?: ImportRecord }>();
+  const unidentified: ImportRecord[] = [];
+
+  records.forEach(entry => {
+    const talentId = isPlainObject(entry.record) ? parseTalentId(entry.record.id) : null;
+    if (!talentId) {
+      unidentified.push(entry);
+      return;
+    }
+    const talent = talents.get(talentId) ?? {};
+    if (entry.kind === 'list') {
+      talent.list = entry;
+    } else {
+      talent.detail = entry;
+    }
+    talents.set(talentId, talent);
+  });
+
+  const merged: Array<{ record: Document; sources: string[] }> = [];
+  talents.forEach(({ list, detail }) => {
+    if (list && detail) {
+      merged.push({ record: mergeTalentDetails(list.record, detail.record), sources: [list.source, detail.source] });
+    } else if (list || detail) {
+      const entry = (detail || list) as ImportRecord;
+      merged.push({ record: entry.record, sources: [entry.source] });
+    }
+  });
+  // Kept so the report says why they are rejected
+  unidentified.forEach(({ record, source }) => merged.push({ record, sources: [source] }));
+
+  const results: ImportResult[] = [...invalid];
+  const documents: TalentDocument[] = [];
+  const documentSources: string[][] = [];
+  merged.forEach(({ record, sources }) => {
+    const prepared = toTalentDocument(record);
+    if ('result' in prepared) {
+      results.push(toImportResult(prepared.result, sources));
+      return;
+    }
+    documents.push(prepared.dataToSave);
+    documentSources.push(sources);
+  });
+
+  const saved = await saveTalentDocuments(db, documents, { dryRun });
+  saved.forEach((result, index) => {
+    results.push(toImportResult(result, documentSources[index]));
+  });
+
+  const summary = { inserted: 0, updated: 0, unchanged: 0, invalid: 0 };
+  results.forEach(result => {
+    summary[result.status]++;
+  });
+
+  return { dryRun, total: results.length, summary, results };
+}
@@ -0,0 +1,82 @@
+import { Db, Document } from 'mongodb';
+import { getTalentETag, matchesIfMatch } from '@/lib/etag';
+import { validateTalent } from '@/lib/talent';
+import { BOOKKEEPING_FIELDS } from '@/lib/talent-diff';
+import { prepareTalentData, saveTalentDocuments, SaveResult } from '@/lib/talent-store';
+import { ValidationIssue } from '@/lib/validation';
+
+// Fields a patch may not touch: the talent's identity, bookkeeping, and `raw`,
+// which only collects the unknown fields of validated payloads
+const PROTECTED_FIELDS = new Set([...BOOKKEEPING_FIELDS, 'id', 'talent_id', 'raw']);
+
+function isPlainObject(value: unknown): value is Document {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// JSON Merge Patch (RFC 7386): objects are merged recursively, null removes a
+// field, and anything else (arrays included) replaces the target value
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Document = isPlainObject(target) ? { ...target } : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  });
+  return result;
+}
+
+export type PatchTalentResult =
+  | { result: SaveResult }
+  | { error: string; status: number; errors?: ValidationIssue[] };
+
+// Apply a merge patch to a stored talent and save the result, validated like
+// any other payload. Fields the patch removes are unset. `ifMatch` is the
+// request's If-Match header, checked before the patch is applied.
+export async function patchTalent(db: Db, talentId: number, patch: unknown, ifMatch: string | null): Promise<PatchTalentResult> {
+  if (!isPlainObject(patch)) {
+    return { error: 'Patch must be a JSON object', status: 400 };
+  }
+
+  const protectedField = Object.keys(patch).find(key => PROTECTED_FIELDS.has(key));
+  if (protectedField) {
+    return { error: `${protectedField} cannot be patched`, status: 400 };
+  }
+
+  const existing = await db.collection('talents').findOne({ talent_id: talentId });
+  if (!existing) {
+    return { error: 'Talent not found', status: 404 };
+  }
+  if (ifMatch && !matchesIfMatch(ifMatch, getTalentETag(existing))) {
+    return { error: 'Precondition failed: the talent has changed', status: 412 };
+  }
+
+  const target: Document = {};
+  Object.entries(existing).forEach(([key, value]) => {
+    if (!PROTECTED_FIELDS.has(key)) target[key] = value;
+  });
+  const merged = applyMergePatch(target, patch) as Document;
+
+  const validation = validateTalent({ ...merged, id: talentId });
+  if (!validation.success) {
+    return { error: 'Invalid talent data.', status: 400, errors: validation.errors };
+  }
+
+  // Unknown fields the patch adds are kept in `raw` next to the stored ones
+  const raw = validation.raw ? applyMergePatch(existing.raw, validation.raw) : existing.raw;
+  const dataToSave = prepareTalentData({ ...validation.data, raw }, talentId);
+
+  const [result] = await saveTalentDocuments(db, [dataToSave], { updateOnly: true, unsetMissing: true, ifMatch });
+  if (result.preconditionFailed) {
+    return { error: 'Precondition failed: the talent has changed', status: 412 };
+  }
+  if (result.status === 'rejected') {
+    return { error: result.reason || 'Talent could not be saved', status: result.reason === 'Talent not found' ? 404 : 500 };
+  }
+  return { result };
+}
@@ -0,0 +1,239 @@
+import { Db, Document } from 'mongodb';
+import { z } from 'zod';
+import { ensureIndexes } from '@/lib/mongodb';
+import { buildAnnotationMatch, PIPELINE_STAGES } from '@/lib/talent-annotations';
+import { toValidationIssues, ValidationIssue } from '@/lib/validation';
+
+// A repeatable query parameter (`role=Design&role=Product`) or a JSON list.
+// A single string is accepted too, as older saved searches stored one value.
+const listFilter = z
+  .union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(Boolean))
+  .default([]);
+
+// Empty parameters (`total_jobs_min=`) leave the bound unset
+const rangeBound = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  z.coerce.number().min(0).optional()
+);
+
+// Filters shared by the list, export and saved search endpoints. Multi-value
+// filters match any of their values, except `profile` (every site) and
+// `superpower` (see `superpowers_mode`).
+export const talentFiltersSchema = z.object({
+  search: z.string().trim().default(''),
+  role: listFilter,
+  nationality: listFilter,
+  available: z.preprocess(value => value === true || value === 'true', z.boolean()),
+  total_jobs_min: rangeBound,
+  total_jobs_max: rangeBound,
+  average_rating_min: rangeBound,
+  average_rating_max: rangeBound,
+  review_count_min: rangeBound,
+  review_count_max: rangeBound,
+  superpower: listFilter,
+  superpowers_mode: z.enum(['any', 'all']).default('any'),
+  // external_profiles.site.name, e.g. GitHub or LinkedIn
+  profile: listFilter,
+  tag: z.string().default(''),
+  stage: z.preprocess(value => (value === '' || value === null ? undefined : value), z.enum(PIPELINE_STAGES).optional()),
+  // Talents that a full scrape of their query no longer returns are hidden unless set
+  include_stale: z.preprocess(value => value === true || value === 'true', z.boolean()),
+});
+
+export type TalentFilters = z.infer<typeof talentFiltersSchema> & {
+  // Resolved from `tag` and `stage` by prepareTalentQuery
+  annotationMatch?: Document | null;
+};
+
+export type TalentFilterKey = 'role' | 'nationality' | 'available' | 'superpower' | 'profile';
+
+// Fields with `<field>_min` and `<field>_max` filters
+const RANGE_FIELDS = ['total_jobs', 'average_rating', 'review_count'] as const;
+
+const LIST_PARAMS = ['role', 'nationality', 'superpower', 'profile'];
+
+// average_rating is stored as a string, e.g. "4.85"; unparseable values become null
+export const NUMERIC_RATING = { $convert: { input: '$average_rating', to: 'double', onError: null, onNull: null } };
+
+export function parseTalentFilters(
+  searchParams: URLSearchParams
+): { filters: TalentFilters } | { error: string; errors: ValidationIssue[] } {
+  const input: Record<string, unknown> = {};
+  new Set(searchParams.keys()).forEach(key => {
+    input[key] = LIST_PARAMS.includes(key) ? searchParams.getAll(key) : searchParams.get(key);
+  });
+
+  const parsed = talentFiltersSchema.safeParse(input);
+  if (!parsed.success) {
+    return { error: 'Invalid filters.', errors: toValidationIssues(parsed.error, input) };
+  }
+  return { filters: parsed.data };
+}
+
+// Full-text search supports "quoted phrases" and -exclusions
+export function buildTextMatch(filters: TalentFilters): Document {
+  return filters.search ? { $text: { $search: filters.search } } : {};
+}
+
+function buildRange(min: number | undefined, max: number | undefined): Document | null {
+  if (min === undefined && max === undefined) return null;
+  return {
+    ...(min !== undefined ? { $gte: min } : {}),
+    ...(max !== undefined ? { $lte: max } : {}),
+  };
+}
+
+// Match every filter except `except`, so a facet can ignore its own filter
+export function buildFilterMatch(filters: TalentFilters, except?: TalentFilterKey): Document {
+  const match: Document = {};
+
+  if (filters.role.length > 0 && except !== 'role') {
+    match['role.name'] = { $in: filters.role };
+  }
+
+  if (filters.nationality.length > 0 && except !== 'nationality') {
+    match.country = { $in: filters.nationality };
+  }
+
+  if (filters.available && except !== 'available') {
+    match.availability_for_work = true;
+  }
+
+  if (filters.superpower.length > 0 && except !== 'superpower') {
+    match['superpowers.name'] = filters.superpowers_mode === 'all' ? { $all: filters.superpower } : { $in: filters.superpower };
+  }
+
+  if (filters.profile.length > 0 && except !== 'profile') {
+    match['external_profiles.site.name'] = { $all: filters.profile };
+  }
+
+  RANGE_FIELDS.forEach(field => {
+    const range = buildRange(filters[`${field}_min`], filters[`${field}_max`]);
+    if (!range) return;
+    if (field === 'average_rating') {
+      match.$expr = {
+        $and: [
+          { $ne: [NUMERIC_RATING, null] },
+          ...Object.entries(range).map(([operator, bound]) => ({ [operator]: [NUMERIC_RATING, bound] })),
+        ],
+      };
+    } else {
+      match[field] = range;
+    }
+  });
+
+  if (!filters.include_stale) {
+    match.stale = { $ne: true };
+  }
+
+  if (filters.annotationMatch) {
+    Object.assign(match, filters.annotationMatch);
+  }
+
+  return match;
+}
+
+export function buildTalentQuery(filters: TalentFilters): Document {
+  return { ...buildTextMatch(filters), ...buildFilterMatch(filters) };
+}
+
+export const TALENT_SORT_KEYS = ['rank', 'relevance', 'total_jobs', 'average_rating', 'review_count', 'updatedAt', 'name'] as const;
+
+export type TalentSortKey = (typeof TALENT_SORT_KEYS)[number];
+
+export type SortDirection = 1 | -1;
+
+export type TalentSort = {
+  key: TalentSortKey;
+  direction: SortDirection;
+};
+
+// `sort` defaults to relevance when searching and to personal_rank otherwise.
+// `order` defaults to A→Z for name and highest/newest first for everything else.
+export function parseTalentSort(searchParams: URLSearchParams, filters: TalentFilters): TalentSort | { error: string } {
+  const key = searchParams.get('sort') || (filters.search ? 'relevance' : 'rank');
+  if (!TALENT_SORT_KEYS.includes(key as TalentSortKey)) {
+    return { error: `Invalid sort. Use one of: ${TALENT_SORT_KEYS.join(', ')}.` };
+  }
+  if (key === 'relevance' && !filters.search) {
+    return { error: 'Sorting by relevance requires search.' };
+  }
+
+  const order = searchParams.get('order');
+  if (order && order !== 'asc' && order !== 'desc') {
+    return { error: 'Invalid order. Use asc or desc.' };
+  }
+
+  const direction: SortDirection = order ? (order === 'asc' ? 1 : -1) : (key === 'name' ? 1 : -1);
+  return { key: key as TalentSortKey, direction };
+}
+
+// Sorts backed by the { <field>: -1, id: 1 } indexes in lib/mongodb.ts sort and
+// page on the stored field. Arrays sort by their largest element descending and
+// their smallest ascending, as MongoDB orders them.
+const INDEXED_SORT_FIELDS: Partial<Record<TalentSortKey, string>> = {
+  rank: 'personal_rank',
+  total_jobs: 'total_jobs',
+  review_count: 'review_count',
+  updatedAt: 'updatedAt',
+};
+
+// Sort value of the other sorts, computed per talent
+const COMPUTED_SORT_VALUES: Partial<Record<TalentSortKey, unknown>> = {
+  relevance: { $meta: 'textScore' },
+  average_rating: NUMERIC_RATING,
+  name: { $toLower: '$user.public_name' },
+};
+
+// The field a sort orders and pages by: the stored field, or `_sort` for computed values
+export function getSortField(sort: TalentSort): string {
+  return INDEXED_SORT_FIELDS[sort.key] ?? '_sort';
+}
+
+// The value a cursor records for a talent, as `_sort`
+function cursorValue(sort: TalentSort): unknown {
+  const field = INDEXED_SORT_FIELDS[sort.key];
+  if (!field) return COMPUTED_SORT_VALUES[sort.key];
+  return field === 'personal_rank' ? { [sort.direction === 1 ? '$min' : '$max']: `$${field}` } : `$${field}`;
+}
+
+// Aggregation stages that list the talents matching `filters` in `sort` order.
+// Ties are ordered by id in the opposite direction, which the indexes serve both
+// ways. Each listed talent gets its sort value as `_sort` (used for cursors)
+// and, when searching, its text `score`. `after` is a cursor match from
+// lib/pagination, on the field of getSortField.
+export function buildTalentListPipeline(
+  filters: TalentFilters,
+  sort: TalentSort,
+  { after, skip = 0, limit }: { after?: Document; skip?: number; limit?: number } = {}
+): Document[] {
+  const field = getSortField(sort);
+  const sortStages = [
+    { $sort: { [field]: sort.direction, id: -sort.direction } },
+    ...(skip > 0 ? [{ $skip: skip }] : []),
+    ...(limit ? [{ $limit: limit }] : []),
+  ];
+  const valueStage = {
+    $addFields: {
+      _sort: cursorValue(sort),
+      ...(filters.search ? { score: { $meta: 'textScore' } } : {}),
+    },
+  };
+
+  // Computed values have to be added before sorting by them; stored fields
+  // are sorted first, so only the listed talents get the extra fields
+  const query = buildTalentQuery(filters);
+  return field === '_sort'
+    ? [{ $match: query }, valueStage, ...(after ? [{ $match: after }] : []), ...sortStages]
+    : [{ $match: after ? { $and: [query, after] } : query }, ...sortStages, valueStage];
+}
+
+// $text queries need the text index, and annotation filters need the matching
+// talent ids. Returns the filters ready for the build* functions.
+export async function prepareTalentQuery(db: Db, filters: TalentFilters): Promise<TalentFilters> {
+  if (filters.search) {
+    await ensureIndexes(db);
+  }
+  return { ...filters, annotationMatch: await buildAnnotationMatch(db, filters.tag, filters.stage ?? '') };
+}
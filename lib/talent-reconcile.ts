@@ -0,0 +1,215 @@
+import { Db, Document, ObjectId, WithId } from 'mongodb';
+import { ensureIndexes } from '@/lib/mongodb';
+import { computeDiff } from '@/lib/talent-diff';
+import { parseTalentId, TalentHistoryEntry } from '@/lib/talent-store';
+
+// A fix for one talent. Every document ends up with talent_id equal to id,
+// the talent's own id from Braintrust. Once applied, each action carries its
+// `status`, and the `error` it failed with.
+export type ReconcileAction = (
+  | {
+      type: 'set_talent_id';
+      talent_id: number;
+      documentId: string;
+      // `missing`: no numeric talent_id; `mismatch`: talent_id differs from id
+      reason: 'missing' | 'mismatch';
+      previousTalentId?: unknown;
+    }
+  | {
+      type: 'merge';
+      talent_id: number;
+      // The most recently updated document, which the others are merged into
+      keep: string;
+      remove: string[];
+    }
+) & {
+  status?: 'applied' | 'failed';
+  error?: string;
+};
+
+export type ReconcileReport = {
+  dryRun: boolean;
+  missingTalentId: number;
+  mismatched: number;
+  duplicates: number;
+  // Actions applied and failed; both 0 in a dry run
+  applied: number;
+  failed: number;
+  // Documents with neither a usable id nor talent_id, left untouched
+  unresolvable: string[];
+  actions: ReconcileAction[];
+};
+
+// The talent a document belongs to
+function canonicalId(doc: Document): number | null {
+  return parseTalentId(doc.id) ?? parseTalentId(doc.talent_id);
+}
+
+function lastTouched(doc: WithId<Document>): number {
+  return doc.updatedAt instanceof Date ? doc.updatedAt.getTime() : doc._id.getTimestamp().getTime();
+}
+
+// Merge duplicates into the kept document, storing the removed ones in talent_history
+async function applyMerge(
+  db: Db,
+  { talentId, keep, remove }: { talentId: number; keep: WithId<Document>; remove: WithId<Document>[] },
+  changedAt: Date
+) {
+  const collection = db.collection('talents');
+
+  // Older documents only fill in fields the newest one lacks
+  const merged: Document = Object.assign({}, ...[...remove].reverse(), keep);
+  delete merged._id;
+  merged.id = talentId;
+  merged.talent_id = talentId;
+  merged.version = Math.max(...[keep, ...remove].map(doc => (doc.version as number | undefined) ?? 0)) + 1;
+
+  const historyEntries: TalentHistoryEntry[] = remove.map(doc => {
+    const previous: Document = { ...doc };
+    delete previous._id;
+    return {
+      talent_id: talentId,
+      version: (doc.version as number | undefined) ?? 0,
+      changedAt,
+      changes: computeDiff(previous, merged),
+      previous,
+    };
+  });
+  await db.collection<TalentHistoryEntry>('talent_history').insertMany(historyEntries, { ordered: false });
+
+  // Remove the duplicates first so the unique talent_id index never sees two
+  await collection.deleteMany({ _id: { $in: remove.map(doc => doc._id) } });
+  await collection.replaceOne({ _id: keep._id }, merged);
+}
+
+// Find documents missing talent_id, with talent_id different from id, and
+// several documents for the same talent. Unless `dryRun`, fix them: set
+// talent_id, and merge duplicates into the most recently updated document,
+// filling fields it lacks from the others. Removed duplicates are kept in
+// talent_history.
+export async function reconcileTalents(db: Db, { dryRun }: { dryRun: boolean }): Promise<ReconcileReport> {
+  const collection = db.collection('talents');
+
+  const [problems, duplicateKeys] = await Promise.all([
+    collection
+      .find(
+        {
+          $or: [
+            { talent_id: { $not: { $type: 'number' } } },
+            { $expr: { $ne: ['$id', '$talent_id'] } },
+          ],
+        },
+        { projection: { _id: 1, id: 1, talent_id: 1 } }
+      )
+      .toArray(),
+    collection
+      .aggregate<{ _id: number }>([
+        { $match: { talent_id: { $type: 'number' } } },
+        { $group: { _id: '$talent_id', count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } },
+      ], { allowDiskUse: true })
+      .toArray(),
+  ]);
+
+  const unresolvable: string[] = [];
+  const keys = new Set<number>(duplicateKeys.map(key => key._id));
+  problems.forEach(doc => {
+    const key = canonicalId(doc);
+    if (key === null) {
+      unresolvable.push(doc._id.toHexString());
+    } else {
+      keys.add(key);
+      // A mismatched talent_id may collide with another talent's document
+      const talentId = parseTalentId(doc.talent_id);
+      if (talentId !== null) keys.add(talentId);
+    }
+  });
+
+  const keyList = Array.from(keys);
+  const involved = keyList.length === 0
+    ? []
+    : await collection.find({ $or: [{ talent_id: { $in: keyList } }, { id: { $in: keyList } }] }).toArray();
+
+  const groups = new Map<number, WithId<Document>[]>();
+  involved.forEach(doc => {
+    const key = canonicalId(doc);
+    if (key === null) return;
+    groups.set(key, [...(groups.get(key) ?? []), doc]);
+  });
+
+  const report: ReconcileReport = {
+    dryRun,
+    missingTalentId: problems.filter(doc => typeof doc.talent_id !== 'number').length,
+    mismatched: problems.filter(doc => typeof doc.talent_id === 'number').length,
+    duplicates: 0,
+    applied: 0,
+    failed: 0,
+    unresolvable,
+    actions: [],
+  };
+  const merges = new Map<ReconcileAction, { talentId: number; keep: WithId<Document>; remove: WithId<Document>[] }>();
+
+  groups.forEach((docs, talentId) => {
+    if (docs.length === 1) {
+      const [doc] = docs;
+      if (doc.talent_id === talentId && doc.id === talentId) return;
+      report.actions.push({
+        type: 'set_talent_id',
+        talent_id: talentId,
+        documentId: doc._id.toHexString(),
+        reason: typeof doc.talent_id === 'number' ? 'mismatch' : 'missing',
+        ...(doc.talent_id !== undefined ? { previousTalentId: doc.talent_id } : {}),
+      });
+      return;
+    }
+
+    const [keep, ...remove] = [...docs].sort((a, b) => lastTouched(b) - lastTouched(a));
+    report.duplicates += remove.length;
+    const action: ReconcileAction = {
+      type: 'merge',
+      talent_id: talentId,
+      keep: keep._id.toHexString(),
+      remove: remove.map(doc => doc._id.toHexString()),
+    };
+    report.actions.push(action);
+    merges.set(action, { talentId, keep, remove });
+  });
+
+  if (dryRun) {
+    return report;
+  }
+
+  // Clear every talent_id that is about to change first, so swapped or
+  // colliding values never meet in the unique index while actions run
+  const conflicting = involved.filter(doc => typeof doc.talent_id === 'number' && doc.talent_id !== canonicalId(doc));
+  if (conflicting.length > 0) {
+    await collection.updateMany({ _id: { $in: conflicting.map(doc => doc._id) } }, { $unset: { talent_id: '' } });
+  }
+
+  const changedAt = new Date();
+  for (const action of report.actions) {
+    try {
+      if (action.type === 'set_talent_id') {
+        await collection.updateOne(
+          { _id: new ObjectId(action.documentId) },
+          { $set: { talent_id: action.talent_id, id: action.talent_id } }
+        );
+      } else {
+        const merge = merges.get(action);
+        if (merge) await applyMerge(db, merge, changedAt);
+      }
+      action.status = 'applied';
+      report.applied++;
+    } catch (error: unknown) {
+      console.error(`Error applying reconcile action for talent ${action.talent_id}:`, error);
+      action.status = 'failed';
+      action.error = error instanceof Error ? error.message : String(error);
+      report.failed++;
+    }
+  }
+
+  // The unique index can only be built once duplicates are gone
+  await ensureIndexes(db, { retryFailed: true });
+
+  return report;
+}
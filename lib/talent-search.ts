@@ -0,0 +1,130 @@
+import { Document } from 'mongodb';
+
+// Fields covered by the talents text index, with their relevance weights
+export const TEXT_INDEX_FIELDS = {
+  'user.public_name': 10,
+  'user.title': 5,
+  'user.introduction_headline': 5,
+  'superpowers.name': 3,
+  'user.introduction': 1,
+} as const;
+
+export const TEXT_INDEX_NAME = 'talent_text_search';
+
+export type HighlightFragment = {
+  text: string;
+  match: boolean;
+};
+
+export type SearchHighlight = {
+  field: string;
+  fragments: HighlightFragment[];
+};
+
+export type ParsedSearch = {
+  phrases: string[];
+  terms: string[];
+  exclusions: string[];
+};
+
+// Fields we build snippets from, in display order
+const HIGHLIGHT_FIELDS = ['user.introduction_headline', 'user.introduction', 'user.title', 'superpowers.name'];
+
+// Characters of context kept on each side of the first match
+const SNIPPET_RADIUS = 80;
+
+// Split a search string the way MongoDB $text reads it:
+// "quoted phrases", -exclusions and plain terms
+export function parseSearch(search: string): ParsedSearch {
+  const parsed: ParsedSearch = { phrases: [], terms: [], exclusions: [] };
+  const tokenPattern = /(-?)"([^"]+)"|(\S+)/g;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenPattern.exec(search)) !== null) {
+    if (token[2] !== undefined) {
+      (token[1] ? parsed.exclusions : parsed.phrases).push(token[2].trim());
+    } else if (token[3].startsWith('-') && token[3].length > 1) {
+      parsed.exclusions.push(token[3].slice(1));
+    } else {
+      parsed.terms.push(token[3]);
+    }
+  }
+
+  return parsed;
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches phrases exactly and terms as word prefixes, to roughly follow stemming
+function buildHighlightPattern(parsed: ParsedSearch): RegExp | null {
+  const alternatives = [
+    ...parsed.phrases.map(phrase => escapeRegex(phrase).replace(/\s+/g, '\\s+')),
+    ...parsed.terms.map(term => `\\b${escapeRegex(term)}\\w*`),
+  ];
+  return alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'gi') : null;
+}
+
+function getFieldText(talent: Document, field: string): string {
+  const value = field.split('.').reduce<unknown>((current, key) => {
+    if (Array.isArray(current)) {
+      return current.map(item => (item && typeof item === 'object' ? (item as Document)[key] : undefined));
+    }
+    return current && typeof current === 'object' ? (current as Document)[key] : undefined;
+  }, talent);
+
+  if (Array.isArray(value)) return value.filter(Boolean).join(', ');
+  return typeof value === 'string' ? value : '';
+}
+
+function buildSnippet(text: string, pattern: RegExp): HighlightFragment[] | null {
+  pattern.lastIndex = 0;
+  const first = pattern.exec(text);
+  if (!first) return null;
+
+  let start = Math.max(0, first.index - SNIPPET_RADIUS);
+  let end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS);
+  // Avoid cutting words in half
+  if (start > 0) {
+    const nextSpace = text.indexOf(' ', start);
+    if (nextSpace !== -1 && nextSpace < first.index) start = nextSpace + 1;
+  }
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (lastSpace > first.index + first[0].length) end = lastSpace;
+  }
+
+  const window = text.slice(start, end);
+  const fragments: HighlightFragment[] = [];
+  let cursor = 0;
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(window)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > cursor) fragments.push({ text: window.slice(cursor, match.index), match: false });
+    fragments.push({ text: match[0], match: true });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < window.length) fragments.push({ text: window.slice(cursor), match: false });
+
+  if (start > 0) fragments.unshift({ text: '…', match: false });
+  if (end < text.length) fragments.push({ text: '…', match: false });
+
+  return fragments;
+}
+
+// Build highlighted match snippets for a search result
+export function buildHighlights(talent: Document, search: string): SearchHighlight[] {
+  const pattern = buildHighlightPattern(parseSearch(search));
+  if (!pattern) return [];
+
+  return HIGHLIGHT_FIELDS.flatMap(field => {
+    const fragments = buildSnippet(getFieldText(talent, field), pattern);
+    return fragments ? [{ field, fragments }] : [];
+  });
+}
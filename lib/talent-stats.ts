@@ -0,0 +1,137 @@
+import { Collection, Document } from 'mongodb';
+import { buildTalentQuery, NUMERIC_RATING, TalentFilters } from '@/lib/talent-query';
+
+export const DEFAULT_ACTIVITY_DAYS = 30;
+export const MAX_ACTIVITY_DAYS = 365;
+
+const TOP_COUNTRIES = 25;
+const TOP_SUPERPOWERS = 25;
+
+// Lower bounds of the histogram buckets; each bucket runs up to the next bound
+const RATING_BOUNDARIES = [0, 1, 2, 3, 3.5, 4, 4.5, 4.8];
+const JOB_BOUNDARIES = [0, 1, 2, 5, 10, 20, 50, 100];
+
+export type StatsCount = {
+  value: string;
+  count: number;
+};
+
+// `max` is exclusive and null for the open-ended last bucket
+export type HistogramBucket = {
+  min: number;
+  max: number | null;
+  count: number;
+};
+
+export type ActivityDay = {
+  date: string;
+  added: number;
+  updated: number;
+};
+
+export type TalentStats = {
+  total: number;
+  roles: StatsCount[];
+  countries: StatsCount[];
+  availability: { available: number; unavailable: number; ratio: number };
+  ratings: { buckets: HistogramBucket[]; unrated: number };
+  jobs: HistogramBucket[];
+  superpowers: StatsCount[];
+  activity: ActivityDay[];
+};
+
+// $bucket needs an upper bound past every value, which also closes the last bucket
+const bucketStage = (groupBy: unknown, boundaries: number[]) => ({
+  $bucket: {
+    groupBy,
+    boundaries: [...boundaries, Number.MAX_SAFE_INTEGER],
+    default: 'other',
+    output: { count: { $sum: 1 } },
+  },
+});
+
+function toHistogram(boundaries: number[], buckets: Array<{ _id: number | string; count: number }>): HistogramBucket[] {
+  return boundaries.map((min, index) => ({
+    min,
+    max: boundaries[index + 1] ?? null,
+    count: buckets.find(bucket => bucket._id === min)?.count ?? 0,
+  }));
+}
+
+const dayOf = (date: unknown) => ({ $dateToString: { format: '%Y-%m-%d', date } });
+
+// Aggregate statistics over the talents matching `filters`. `activity` covers
+// the last `days` days (UTC): talents added per day, from the insert time in
+// their ObjectId, and talents whose latest update (`updatedAt`) was that day.
+export async function getTalentStats(collection: Collection, filters: TalentFilters, days: number): Promise<TalentStats> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const countBy = (field: unknown, limit?: number): Document[] => [
+    { $group: { _id: field, count: { $sum: 1 } } },
+    { $match: { _id: { $nin: [null, ''] } } },
+    { $sort: { count: -1, _id: 1 } },
+    ...(limit ? [{ $limit: limit }] : []),
+  ];
+
+  const [facets] = await collection.aggregate([
+    { $match: buildTalentQuery(filters) },
+    {
+      $facet: {
+        total: [{ $count: 'count' }],
+        roles: countBy('$role.name'),
+        countries: countBy('$country', TOP_COUNTRIES),
+        availability: [{ $group: { _id: { $eq: ['$availability_for_work', true] }, count: { $sum: 1 } } }],
+        // Missing or unparseable ratings fall into the `other` bucket
+        ratings: [bucketStage(NUMERIC_RATING, RATING_BOUNDARIES)],
+        jobs: [bucketStage({ $ifNull: ['$total_jobs', 0] }, JOB_BOUNDARIES)],
+        superpowers: [{ $unwind: '$superpowers' }, ...countBy('$superpowers.name', TOP_SUPERPOWERS)],
+        added: [
+          { $addFields: { _addedAt: { $toDate: '$_id' } } },
+          { $match: { _addedAt: { $gte: since } } },
+          ...countBy(dayOf('$_addedAt')),
+        ],
+        updated: [
+          { $match: { updatedAt: { $gte: since } } },
+          ...countBy(dayOf('$updatedAt')),
+        ],
+      },
+    },
+  ]).toArray();
+
+  const toCounts = (buckets: Array<{ _id: string; count: number }>) =>
+    buckets.map(bucket => ({ value: bucket._id, count: bucket.count }));
+  const availabilityCount = (value: boolean) =>
+    facets.availability.find((bucket: { _id: boolean }) => bucket._id === value)?.count || 0;
+  const available = availabilityCount(true);
+  const unavailable = availabilityCount(false);
+
+  // One entry per day, including days without activity
+  const addedByDay = new Map<string, number>(facets.added.map((day: { _id: string; count: number }) => [day._id, day.count]));
+  const updatedByDay = new Map<string, number>(facets.updated.map((day: { _id: string; count: number }) => [day._id, day.count]));
+  const activity = Array.from({ length: days }, (_, index) => {
+    const date = new Date(since);
+    date.setUTCDate(since.getUTCDate() + index);
+    const key = date.toISOString().slice(0, 10);
+    return { date: key, added: addedByDay.get(key) ?? 0, updated: updatedByDay.get(key) ?? 0 };
+  });
+
+  return {
+    total: facets.total[0]?.count || 0,
+    roles: toCounts(facets.roles),
+    countries: toCounts(facets.countries),
+    availability: {
+      available,
+      unavailable,
+      ratio: available + unavailable > 0 ? available / (available + unavailable) : 0,
+    },
+    ratings: {
+      buckets: toHistogram(RATING_BOUNDARIES, facets.ratings),
+      unrated: facets.ratings.find((bucket: { _id: unknown }) => bucket._id === 'other')?.count ?? 0,
+    },
+    jobs: toHistogram(JOB_BOUNDARIES, facets.jobs),
+    superpowers: toCounts(facets.superpowers),
+    activity,
+  };
+}
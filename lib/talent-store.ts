@@ -0,0 +1,451 @@
+import { AnyBulkWriteOperation, Collection, Db, Document, MongoBulkWriteError } from 'mongodb';
+import { validateTalent } from '@/lib/talent';
+import { formatValidationIssues, ValidationIssue } from '@/lib/validation';
+import { BOOKKEEPING_FIELDS, computeDiff, FieldChange } from '@/lib/talent-diff';
+import { getTalentETag, matchesIfMatch } from '@/lib/etag';
+import { recordSavedSearchMatches } from '@/lib/saved-searches';
+import { enqueueTalentEvents } from '@/lib/webhooks';
+
+export type SaveStatus = 'inserted' | 'updated' | 'unchanged' | 'rejected';
+
+export type SaveResult = {
+  id: number | null;
+  status: SaveStatus;
+  reason?: string;
+  errors?: ValidationIssue[];
+  changes?: FieldChange[];
+  // Rejected because the stored talent no longer matched If-Match
+  preconditionFailed?: boolean;
+};
+
+export type TalentDocument = Document & {
+  id: number;
+  talent_id: number;
+  updatedAt: Date;
+};
+
+// One entry per write that changed a talent, holding the version it replaced
+export type TalentHistoryEntry = {
+  talent_id: number;
+  version: number;
+  changedAt: Date;
+  changes: FieldChange[];
+  previous: Document;
+};
+
+// Ensure id is a number, not null or undefined
+export function parseTalentId(value: unknown): number | null {
+  const talentId = Number(value);
+  if (!talentId || isNaN(talentId)) {
+    return null;
+  }
+  return talentId;
+}
+
+// Parse a comma-separated list of talent ids such as `12,7,31`, keeping their
+// order and dropping repeats; null when any of them is not a valid id
+export function parseTalentIds(value: string): number[] | null {
+  const ids = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => (/^\d+$/.test(item) ? parseTalentId(item) : null));
+  if (ids.some(id => id === null)) return null;
+  return Array.from(new Set(ids as number[]));
+}
+
+// Prepare data with both id and talent_id (for the unique index)
+export function prepareTalentData(talentData: Document, talentId: number): TalentDocument {
+  const dataToSave: TalentDocument = {
+    ...talentData,
+    id: talentId,
+    talent_id: talentId, // Set talent_id for the unique index
+    updatedAt: new Date()
+  };
+
+  // Remove any null/undefined values that might conflict with unique indexes
+  // But keep talent_id as it's required for the index
+  Object.keys(dataToSave).forEach(key => {
+    if (key !== 'talent_id' && (dataToSave[key] === null || dataToSave[key] === undefined)) {
+      delete dataToSave[key];
+    }
+  });
+
+  return dataToSave;
+}
+
+// Duplicate key error - update the existing document using talent_id,
+// falling back to legacy documents that only carry id. Returns the version it
+// replaced with the changes (none when the data is the same, which is not
+// written), or null when there is no such document.
+export async function updateAfterDuplicateKey(
+  collection: Collection,
+  talentId: number,
+  dataToSave: TalentDocument
+): Promise<{ previous: Document; changes: FieldChange[] } | null> {
+  const existing = (await collection.findOne({ talent_id: talentId })) ?? (await collection.findOne({ id: talentId }));
+  if (!existing) return null;
+  if (computeDiff(existing, dataToSave).length === 0) {
+    return { previous: existing, changes: [] };
+  }
+
+  const previous = await collection.findOneAndUpdate(
+    { _id: existing._id },
+    { $set: dataToSave, $inc: { version: 1 } },
+    { returnDocument: 'before' }
+  );
+  return previous ? { previous, changes: computeDiff(previous, dataToSave) } : null;
+}
+
+// Validate a raw talent payload and prepare it for saving
+export function toTalentDocument(record: unknown): { dataToSave: TalentDocument } | { result: SaveResult } {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { result: { id: null, status: 'rejected', reason: 'Record must be a JSON object' } };
+  }
+
+  const talentData = record as Document;
+  if (!talentData.id) {
+    return { result: { id: null, status: 'rejected', reason: 'Invalid talent data. ID is required.' } };
+  }
+
+  const talentId = parseTalentId(talentData.id);
+  if (!talentId) {
+    return { result: { id: null, status: 'rejected', reason: 'Invalid talent ID. Must be a valid number.' } };
+  }
+
+  const validation = validateTalent({ ...talentData, id: talentId });
+  if (!validation.success) {
+    return {
+      result: {
+        id: talentId,
+        status: 'rejected',
+        reason: formatValidationIssues(validation.errors),
+        errors: validation.errors
+      }
+    };
+  }
+
+  return { dataToSave: prepareTalentData({ ...validation.data, raw: validation.raw }, talentId) };
+}
+
+export type SaveOptions = {
+  // Reject documents for talents that are not stored yet instead of inserting them
+  updateOnly?: boolean;
+  // Remove stored fields the document lacks, rather than leaving them as they are
+  unsetMissing?: boolean;
+  // If-Match header of a single-talent write: save only while the stored talent
+  // has a matching ETag. The version read is part of the update filter, so a
+  // concurrent write in between fails the precondition too.
+  ifMatch?: string | null;
+  // Work out each result, including the changes, but write nothing
+  dryRun?: boolean;
+};
+
+// Upsert prepared talent documents with a single bulkWrite keyed on talent_id.
+// Documents whose data did not change are left untouched; every other update
+// stores the version it replaces in talent_history and queues webhook events.
+// Returns one result per document, in input order.
+export async function saveTalentDocuments(
+  db: Db,
+  documents: TalentDocument[],
+  options: SaveOptions = {}
+): Promise<SaveResult[]> {
+  const collection = db.collection('talents');
+  const results: SaveResult[] = new Array(documents.length);
+  const pending = new Map<number, { index: number; dataToSave: TalentDocument }>();
+
+  documents.forEach((dataToSave, index) => {
+    const talentId = dataToSave.talent_id;
+
+    // The last document for a talent wins
+    const previous = pending.get(talentId);
+    if (previous) {
+      results[previous.index] = {
+        id: talentId,
+        status: 'rejected',
+        reason: `Superseded by record ${index} with the same id`
+      };
+    }
+    pending.set(talentId, { index, dataToSave });
+  });
+
+  if (pending.size === 0) {
+    return results;
+  }
+
+  // Legacy documents may only carry id, so look them up by either key
+  const talentIds = Array.from(pending.keys());
+  const existingDocs = await collection
+    .find({ $or: [{ talent_id: { $in: talentIds } }, { id: { $in: talentIds } }] })
+    .toArray();
+  const existingById = new Map<number, Document>();
+  existingDocs.forEach(doc => {
+    const talentId = (doc.talent_id ?? doc.id) as number;
+    if (!existingById.has(talentId) || doc.talent_id) {
+      existingById.set(talentId, doc);
+    }
+  });
+
+  const operations: AnyBulkWriteOperation[] = [];
+  const operationEntries: Array<{
+    index: number;
+    talentId: number;
+    dataToSave: TalentDocument;
+    existing?: Document;
+    changes?: FieldChange[];
+  }> = [];
+
+  pending.forEach(({ index, dataToSave }, talentId) => {
+    const existing = existingById.get(talentId);
+
+    if (options.ifMatch && !matchesIfMatch(options.ifMatch, existing ? getTalentETag(existing) : null)) {
+      results[index] = { id: talentId, status: 'rejected', reason: 'Precondition failed', preconditionFailed: true };
+      return;
+    }
+
+    if (!existing && options.updateOnly) {
+      results[index] = { id: talentId, status: 'rejected', reason: 'Talent not found' };
+      return;
+    }
+
+    if (!existing) {
+      operations.push({
+        updateOne: {
+          filter: { talent_id: talentId },
+          update: { $set: dataToSave, $setOnInsert: { version: 1 } },
+          upsert: true
+        }
+      });
+      operationEntries.push({ index, talentId, dataToSave });
+      results[index] = { id: talentId, status: 'inserted' };
+      return;
+    }
+
+    const removed = options.unsetMissing
+      ? Object.keys(existing).filter(key => !(key in dataToSave) && !BOOKKEEPING_FIELDS.has(key))
+      : [];
+    const changes = [...computeDiff(existing, dataToSave), ...removed.map(field => ({ field, from: existing[field] }))];
+    if (changes.length === 0) {
+      results[index] = { id: talentId, status: 'unchanged' };
+      return;
+    }
+
+    operations.push({
+      updateOne: {
+        filter: {
+          ...(existing.talent_id ? { talent_id: talentId } : { _id: existing._id }),
+          ...(options.ifMatch ? { version: existing.version ?? { $exists: false } } : {})
+        },
+        update: {
+          $set: dataToSave,
+          ...(removed.length > 0 ? { $unset: Object.fromEntries(removed.map(field => [field, ''])) } : {}),
+          $inc: { version: 1 }
+        }
+      }
+    });
+    operationEntries.push({ index, talentId, dataToSave, existing, changes });
+    results[index] = { id: talentId, status: 'updated', changes };
+  });
+
+  if (operations.length === 0 || options.dryRun) {
+    if (!options.dryRun) await markTalentsIngested(db, results);
+    return results;
+  }
+
+  let upsertedIds: Record<number, unknown> = {};
+  try {
+    const result = await collection.bulkWrite(operations, { ordered: false });
+    upsertedIds = result.upsertedIds;
+
+    // The talent changed between our read and the write
+    if (options.ifMatch && result.matchedCount + result.upsertedCount < operations.length) {
+      operationEntries.forEach(({ index, talentId }) => {
+        results[index] = { id: talentId, status: 'rejected', reason: 'Precondition failed', preconditionFailed: true };
+      });
+    }
+  } catch (error: unknown) {
+    if (!(error instanceof MongoBulkWriteError)) {
+      throw error;
+    }
+
+    upsertedIds = error.result.upsertedIds;
+    const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+
+    for (const writeError of writeErrors) {
+      const entry = operationEntries[writeError.index];
+      const { index, talentId, dataToSave } = entry;
+
+      if (writeError.code !== 11000) {
+        results[index] = { id: talentId, status: 'rejected', reason: writeError.errmsg };
+        continue;
+      }
+
+      try {
+        const retry = await updateAfterDuplicateKey(collection, talentId, dataToSave);
+        if (!retry) {
+          results[index] = { id: talentId, status: 'rejected', reason: 'Duplicate key could not be resolved' };
+        } else if (retry.changes.length === 0) {
+          results[index] = { id: talentId, status: 'unchanged' };
+        } else {
+          // Recorded in talent_history below, like any other update
+          entry.existing = retry.previous;
+          entry.changes = retry.changes;
+          results[index] = { id: talentId, status: 'updated', changes: retry.changes };
+        }
+      } catch (retryError: unknown) {
+        console.error('Error retrying save after duplicate key error:', retryError);
+        results[index] = {
+          id: talentId,
+          status: 'rejected',
+          reason: retryError instanceof Error ? retryError.message : String(retryError)
+        };
+      }
+    }
+  }
+
+  // Trust the server over our pre-read if a concurrent writer got there first
+  operationEntries.forEach(({ index, talentId }, operationIndex) => {
+    if (results[index].status === 'inserted' && !upsertedIds[operationIndex]) {
+      results[index] = { id: talentId, status: 'updated' };
+    }
+  });
+
+  // Keep the versions we replaced
+  const changedAt = new Date();
+  const historyEntries: TalentHistoryEntry[] = operationEntries
+    .filter(({ index, existing, changes }) => existing && changes && results[index].status === 'updated')
+    .map(({ talentId, existing, changes }) => {
+      const previous = { ...existing };
+      delete previous._id;
+      return {
+        talent_id: talentId,
+        version: (previous.version as number | undefined) ?? 0,
+        changedAt,
+        changes: changes as FieldChange[],
+        previous
+      };
+    });
+
+  if (historyEntries.length > 0) {
+    await db.collection<TalentHistoryEntry>('talent_history').insertMany(historyEntries, { ordered: false });
+  }
+
+  // The talents are saved either way; a failure here only loses match notifications
+  const changed = operationEntries.flatMap(({ index, talentId, dataToSave }) => {
+    const { status, changes } = results[index];
+    return status === 'inserted' || status === 'updated' ? [{ talentId, status, changes, talent: dataToSave }] : [];
+  });
+  try {
+    await recordSavedSearchMatches(db, changed);
+  } catch (error: unknown) {
+    console.error('Error recording saved search matches:', error);
+  }
+  try {
+    await enqueueTalentEvents(db, changed);
+  } catch (error: unknown) {
+    console.error('Error queueing webhook events:', error);
+  }
+
+  await markTalentsIngested(db, results);
+  return results;
+}
+
+// Every save, changed or not, counts as a sighting: it sets `lastSeenAt` and
+// clears staleness, so scrape runs only flag talents nothing has saved since
+// they started
+async function markTalentsIngested(db: Db, results: SaveResult[]) {
+  const talentIds = results.flatMap(({ id, status }) => (id !== null && status !== 'rejected' ? [id] : []));
+  if (talentIds.length === 0) return;
+  await db.collection('talents').updateMany(
+    { talent_id: { $in: talentIds } },
+    { $set: { lastSeenAt: new Date() }, $unset: { stale: '', staleSince: '', staleFor: '' } }
+  );
+}
+
+// Validate and upsert a batch of raw talent payloads.
+// Returns one result per input record, in input order.
+export async function bulkUpsertTalents(db: Db, records: unknown[]): Promise<SaveResult[]> {
+  const results: SaveResult[] = new Array(records.length);
+  const documents: TalentDocument[] = [];
+  const documentIndexes: number[] = [];
+
+  records.forEach((record, index) => {
+    const prepared = toTalentDocument(record);
+    if ('result' in prepared) {
+      results[index] = prepared.result;
+      return;
+    }
+    documents.push(prepared.dataToSave);
+    documentIndexes.push(index);
+  });
+
+  const saved = await saveTalentDocuments(db, documents);
+  saved.forEach((result, i) => {
+    results[documentIndexes[i]] = result;
+  });
+
+  return results;
+}
+
+// Update only the list-level fields (search_score, matching_skills_percent,
+// personal_rank) of stored talents. updatedAt is carried over from the stored
+// document so it keeps marking the last full detail fetch.
+export async function refreshListFields(
+  db: Db,
+  items: Array<{ id: number; updatedAt: Date; fields: Document }>
+): Promise<SaveResult[]> {
+  const documents = items.map(({ id, updatedAt, fields }) => ({
+    ...prepareTalentData(fields, id),
+    updatedAt
+  }));
+  return saveTalentDocuments(db, documents, { updateOnly: true });
+}
+
+// Record that scrape run `runId` listed these talents for the query `queryKey`.
+// Kept apart from saveTalentDocuments so sightings never count as changes.
+export async function markTalentsSeen(db: Db, talentIds: number[], runId: string, queryKey: string) {
+  if (talentIds.length === 0) return;
+  await db.collection('talents').updateMany(
+    { talent_id: { $in: talentIds } },
+    {
+      $set: { lastSeenAt: new Date(), lastSeenRunId: runId, [`seenBy.${queryKey}`]: runId },
+      $unset: { stale: '', staleSince: '', [`staleFor.${queryKey}`]: '' }
+    }
+  );
+}
+
+// Keys of an object field, e.g. the queries under `seenBy`
+const fieldKeys = (field: string) => ({
+  $map: { input: { $objectToArray: { $ifNull: [field, {}] } }, in: '$$this.k' }
+});
+
+// Once run `runId` has listed every page of its query, record the talents an
+// earlier run of that query listed but this one did not under
+// `staleFor.<queryKey>`. Talents listed or saved since `startedAt` are left
+// alone. A talent is only flagged `stale` once every query that listed it has
+// dropped it. Returns the number newly flagged.
+export async function markUnseenTalentsStale(db: Db, runId: string, queryKey: string, startedAt: Date): Promise<number> {
+  const collection = db.collection('talents');
+  const now = new Date();
+
+  await collection.updateMany(
+    {
+      [`seenBy.${queryKey}`]: { $exists: true, $ne: runId },
+      [`staleFor.${queryKey}`]: { $exists: false },
+      lastSeenAt: { $lt: startedAt }
+    },
+    { $set: { [`staleFor.${queryKey}`]: now } }
+  );
+
+  const droppedByEveryQuery = { $setIsSubset: [fieldKeys('$seenBy'), fieldKeys('$staleFor')] };
+  const result = await collection.updateMany(
+    { [`staleFor.${queryKey}`]: { $exists: true }, stale: { $ne: true } },
+    [{
+      $set: {
+        stale: { $cond: [droppedByEveryQuery, true, '$$REMOVE'] },
+        staleSince: { $cond: [droppedByEveryQuery, now, '$$REMOVE'] }
+      }
+    }]
+  );
+  return result.modifiedCount;
+}
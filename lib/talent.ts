@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { toValidationIssues, ValidationIssue } from '@/lib/validation';
+
+// Shape of a talent as returned by the Braintrust list and /freelancers/{id} APIs.
+// Only the fields we use are declared; anything else is kept under `raw`.
+
+export const externalProfileSchema = z.object({
+  id: z.number(),
+  site: z.object({
+    id: z.number(),
+    name: z.string(),
+    logo: z.object({
+      id: z.number().nullish(),
+      thumbnail: z.string(),
+    }),
+    placeholder: z.string().nullish(),
+  }),
+  public_url: z.string(),
+});
+
+export const superpowerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+export const talentSchema = z.object({
+  id: z.number().int().positive(),
+  user: z.object({
+    first_name: z.string().nullish(),
+    last_name: z.string().nullish(),
+    public_name: z.string(),
+    title: z.string().nullish(),
+    introduction_headline: z.string().nullish(),
+    introduction: z.string().nullish(),
+    avatar: z.string().nullish(),
+    avatar_thumbnail: z.string().nullish(),
+  }),
+  role: z.object({
+    name: z.string(),
+    color: z.string().nullish(),
+  }),
+  external_profiles: z.array(externalProfileSchema).nullish(),
+  location: z.string().nullish(),
+  country: z.string().nullish(),
+  total_jobs: z.number().nullish(),
+  average_rating: z.string().nullish(),
+  review_count: z.number().nullish(),
+  availability_for_work: z.boolean().nullish(),
+  superpowers: z.array(superpowerSchema).nullish(),
+  personal_rank: z.array(z.number()).nullish(),
+  search_score: z.number().nullish(),
+  matching_skills_percent: z.number().nullish(),
+});
+
+export type TalentInput = z.infer<typeof talentSchema>;
+export type ExternalProfile = z.infer<typeof externalProfileSchema>;
+export type Superpower = z.infer<typeof superpowerSchema>;
+
+// A stored talent document as served by the API (dates are serialized)
+export type Talent = TalentInput & {
+  talent_id: number;
+  updatedAt?: string;
+  // When a scrape job last listed or a write last saved the talent, and whether full runs of its queries no longer list it
+  lastSeenAt?: string;
+  stale?: boolean;
+  raw?: Record<string, unknown>;
+};
+
+export type TalentValidationResult =
+  | { success: true; data: TalentInput; raw?: Record<string, unknown> }
+  | { success: false; errors: ValidationIssue[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Collect the fields zod stripped, mirroring their position in the input
+function collectUnknownFields(input: unknown, parsed: unknown): Record<string, unknown> | undefined {
+  if (!isPlainObject(input) || !isPlainObject(parsed)) {
+    return undefined;
+  }
+
+  const raw: Record<string, unknown> = {};
+  Object.entries(input).forEach(([key, value]) => {
+    if (!(key in parsed)) {
+      if (value !== undefined) raw[key] = value;
+      return;
+    }
+
+    const parsedValue = parsed[key];
+    if (Array.isArray(value) && Array.isArray(parsedValue)) {
+      const items = value.map((item, i) => collectUnknownFields(item, parsedValue[i]));
+      if (items.some(Boolean)) raw[key] = items.map(item => item ?? {});
+      return;
+    }
+
+    const nested = collectUnknownFields(value, parsedValue);
+    if (nested) raw[key] = nested;
+  });
+
+  return Object.keys(raw).length > 0 ? raw : undefined;
+}
+
+// Validate an upstream talent payload, splitting unknown fields into `raw`
+export function validateTalent(input: unknown): TalentValidationResult {
+  const result = talentSchema.safeParse(input);
+
+  if (!result.success) {
+    return { success: false, errors: toValidationIssues(result.error, input) };
+  }
+
+  return {
+    success: true,
+    data: result.data,
+    raw: collectUnknownFields(input, result.data),
+  };
+}
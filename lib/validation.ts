@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+function valueAtPath(input: unknown, path: PropertyKey[]) {
+  return path.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<PropertyKey, unknown>)[key] : undefined),
+    input
+  );
+}
+
+// Turn zod issues into `{ field, message }` pairs such as `role.name is required`
+export function toValidationIssues(error: z.ZodError, input: unknown): ValidationIssue[] {
+  return error.issues.map(issue => {
+    const field = issue.path.map(String).join('.') || '(root)';
+    if (issue.code === 'invalid_type') {
+      const missing = valueAtPath(input, issue.path) === undefined;
+      const article = /^[aeiou]/.test(issue.expected) ? 'an' : 'a';
+      return { field, message: missing ? 'is required' : `must be ${article} ${issue.expected}` };
+    }
+    return { field, message: issue.message };
+  });
+}
+
+// Render validation issues as a single line, e.g. for per-record bulk results
+export function formatValidationIssues(errors: ValidationIssue[]) {
+  return errors.map(error => `${error.field} ${error.message}`).join('; ');
+}
@@ -0,0 +1,371 @@
+import { createHmac, randomBytes } from 'crypto';
+import { Db, Document, ObjectId, WithId } from 'mongodb';
+import { z } from 'zod';
+import { FieldChange } from '@/lib/talent-diff';
+
+// Events a webhook can subscribe to:
+// - talent.created: a talent was stored for the first time
+// - talent.available: availability_for_work changed to true
+// - talent.role_changed / talent.location_changed: role or location changed
+export const WEBHOOK_EVENTS = ['talent.created', 'talent.available', 'talent.role_changed', 'talent.location_changed'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+// `ping` is only sent on request, to check an endpoint, whatever its events
+export type WebhookEvent = WebhookEventType | 'ping';
+
+export const webhookRequestSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).default([...WEBHOOK_EVENTS]),
+  description: z.string().trim().max(200).default(''),
+});
+
+export type Webhook = {
+  url: string;
+  events: WebhookEventType[];
+  description: string;
+  // Key of the HMAC-SHA256 signature; only returned when the webhook is created
+  secret: string;
+  createdAt: Date;
+  disabledAt?: Date;
+};
+
+// pending → delivering → delivered, or back to pending until MAX_ATTEMPTS
+// failed attempts leave it dead
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
+
+export type WebhookAttempt = {
+  attemptedAt: Date;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+};
+
+// The JSON body POSTed to the endpoint
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent;
+  createdAt: Date;
+  data: Document;
+};
+
+export type WebhookDelivery = {
+  webhookId: ObjectId;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  // A worker's claim on a delivery in progress; expires if the worker dies
+  lockedUntil?: Date;
+  log: WebhookAttempt[];
+  createdAt: Date;
+  deliveredAt?: Date;
+  lastError?: string;
+};
+
+// A saved talent, as reported by saveTalentDocuments
+export type TalentChange = {
+  talentId: number;
+  status: 'inserted' | 'updated';
+  changes?: FieldChange[];
+  talent: Document;
+};
+
+// Retries back off exponentially, from 30 seconds doubling after each failed
+// attempt (at most 6 hours apart); the 10th failure leaves a delivery dead
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const CLAIM_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+let indexPromise: Promise<string[] | null> | null = null;
+
+function getWebhooks(db: Db) {
+  return db.collection<Webhook>('webhooks');
+}
+
+function getDeliveries(db: Db) {
+  const collection = db.collection<WebhookDelivery>('webhook_deliveries');
+  if (!indexPromise) {
+    indexPromise = collection
+      .createIndexes([
+        { key: { status: 1, nextAttemptAt: 1 } },
+        { key: { webhookId: 1, createdAt: -1 } },
+      ])
+      .catch((error: unknown) => {
+        console.error('Error creating webhook_deliveries indexes:', error);
+        indexPromise = null;
+        return null;
+      });
+  }
+  return collection;
+}
+
+// API representation of a webhook; never includes the secret
+export function serializeWebhook(webhook: WithId<Webhook>) {
+  const { _id, url, events, description, createdAt, disabledAt } = webhook;
+  return { id: _id.toHexString(), url, events, description, createdAt, disabledAt };
+}
+
+export function serializeWebhookDelivery(delivery: WithId<WebhookDelivery>) {
+  const { _id, webhookId, ...rest } = delivery;
+  delete rest.lockedUntil;
+  return { id: _id.toHexString(), webhookId: webhookId.toHexString(), ...rest };
+}
+
+export async function createWebhook(db: Db, request: z.infer<typeof webhookRequestSchema>) {
+  const webhook: Webhook = {
+    ...request,
+    secret: 'whsec_' + randomBytes(24).toString('base64url'),
+    createdAt: new Date(),
+  };
+  const result = await getWebhooks(db).insertOne(webhook);
+  return { _id: result.insertedId, ...webhook };
+}
+
+export async function listWebhooks(db: Db) {
+  return getWebhooks(db).find({}).sort({ createdAt: -1 }).toArray();
+}
+
+export async function getWebhook(db: Db, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+  return getWebhooks(db).findOne({ _id: new ObjectId(id) });
+}
+
+// Stop sending to a webhook. Its queued deliveries go dead on their next attempt;
+// the record and its delivery log are kept.
+export async function disableWebhook(db: Db, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+  const _id = new ObjectId(id);
+  await getWebhooks(db).updateOne({ _id, disabledAt: { $exists: false } }, { $set: { disabledAt: new Date() } });
+  return getWebhooks(db).findOne({ _id });
+}
+
+// Delivery log of a webhook, newest first
+export async function listWebhookDeliveries(
+  db: Db,
+  webhookId: ObjectId,
+  { status, limit }: { status?: WebhookDeliveryStatus; limit: number }
+) {
+  return getDeliveries(db)
+    .find({ webhookId, ...(status ? { status } : {}) })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+// Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Webhook-Signature: sha256=<hex>`
+// with the timestamp in X-Webhook-Timestamp, so receivers can reject replays
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function getRetryDelayMs(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function newDelivery(webhookId: ObjectId, event: WebhookEvent, data: Document): WebhookDelivery {
+  const now = new Date();
+  return {
+    webhookId,
+    event,
+    payload: { id: new ObjectId().toHexString(), event, createdAt: now, data },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    log: [],
+    createdAt: now,
+  };
+}
+
+const isField = (change: FieldChange, field: string) => change.field === field || change.field.startsWith(`${field}.`);
+
+// Events a saved talent triggers, each with the changes behind it
+export function getTalentEvents(change: TalentChange): Array<{ event: WebhookEventType; changes: FieldChange[] }> {
+  if (change.status === 'inserted') {
+    return [{ event: 'talent.created', changes: [] }];
+  }
+
+  const changes = change.changes || [];
+  const events: Array<{ event: WebhookEventType; changes: FieldChange[] }> = [];
+  const available = changes.filter(item => item.field === 'availability_for_work' && item.to === true);
+  const role = changes.filter(item => isField(item, 'role'));
+  const location = changes.filter(item => isField(item, 'location'));
+
+  if (available.length > 0) events.push({ event: 'talent.available', changes: available });
+  if (role.length > 0) events.push({ event: 'talent.role_changed', changes: role });
+  if (location.length > 0) events.push({ event: 'talent.location_changed', changes: location });
+  return events;
+}
+
+// Queue a delivery to every active webhook subscribed to the events these
+// talents trigger, then start delivering
+export async function enqueueTalentEvents(db: Db, talentChanges: TalentChange[]) {
+  const events = talentChanges.flatMap(change => getTalentEvents(change).map(event => ({ ...event, change })));
+  if (events.length === 0) return;
+
+  const webhooks = await getWebhooks(db)
+    .find({ disabledAt: { $exists: false }, events: { $in: Array.from(new Set(events.map(({ event }) => event))) } })
+    .toArray();
+
+  const deliveries = events.flatMap(({ event, changes, change }) => {
+    // `raw` only holds fields the schema does not know about
+    const talent = { ...change.talent };
+    delete talent.raw;
+    const data = { talent_id: change.talentId, changes, talent };
+    return webhooks
+      .filter(webhook => webhook.events.includes(event))
+      .map(webhook => newDelivery(webhook._id, event, data));
+  });
+  if (deliveries.length === 0) return;
+
+  await getDeliveries(db).insertMany(deliveries, { ordered: false });
+  void processWebhookDeliveries(db);
+}
+
+// Queue a ping to check an endpoint; delivered like any other event
+export async function enqueueWebhookPing(db: Db, webhook: WithId<Webhook>) {
+  const delivery = newDelivery(webhook._id, 'ping', { webhook_id: webhook._id.toHexString() });
+  const result = await getDeliveries(db).insertOne(delivery);
+  void processWebhookDeliveries(db);
+  return { _id: result.insertedId, ...delivery };
+}
+
+// Requeue a dead delivery with a fresh set of attempts; its log is kept
+export async function retryWebhookDelivery(db: Db, webhookId: ObjectId, id: string) {
+  if (!ObjectId.isValid(id)) return null;
+  const delivery = await getDeliveries(db).findOneAndUpdate(
+    { _id: new ObjectId(id), webhookId, status: 'dead' },
+    { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (delivery) void processWebhookDeliveries(db);
+  return delivery;
+}
+
+// Take the next due delivery, or one whose worker stopped mid-attempt
+async function claimDelivery(db: Db) {
+  const now = new Date();
+  return getDeliveries(db).findOneAndUpdate(
+    {
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { status: 'delivering', lockedUntil: { $lt: now } },
+      ],
+    },
+    { $set: { status: 'delivering', lockedUntil: new Date(now.getTime() + CLAIM_MS) } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+async function attemptDelivery(db: Db, delivery: WithId<WebhookDelivery>) {
+  const deliveries = getDeliveries(db);
+  const webhook = await getWebhooks(db).findOne({ _id: delivery.webhookId });
+  const attemptedAt = new Date();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  if (!webhook || webhook.disabledAt) {
+    error = 'Webhook was disabled';
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'braintrust-webhooks',
+          'X-Webhook-Id': webhook._id.toHexString(),
+          'X-Webhook-Delivery': delivery._id.toHexString(),
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (fetchError: unknown) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+  }
+
+  const attempt: WebhookAttempt = {
+    attemptedAt,
+    durationMs: Date.now() - attemptedAt.getTime(),
+    ...(statusCode !== undefined ? { statusCode } : {}),
+    ...(error ? { error } : {}),
+  };
+  const attempts = delivery.attempts + 1;
+
+  if (!error) {
+    await deliveries.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { status: 'delivered', attempts, deliveredAt: new Date() },
+        $unset: { lockedUntil: '', lastError: '' },
+        $push: { log: attempt },
+      }
+    );
+    return;
+  }
+
+  const dead = attempts >= MAX_ATTEMPTS || !webhook || !!webhook.disabledAt;
+  await deliveries.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+      $unset: { lockedUntil: '' },
+      $push: { log: attempt },
+    }
+  );
+}
+
+let processing: Promise<number> | null = null;
+
+// Deliver every due delivery, one at a time. Concurrent calls share the run in
+// progress; deliveries queued after it finishes are picked up by the next call
+// or the worker's poll. Returns the number of attempts made.
+export function processWebhookDeliveries(db: Db): Promise<number> {
+  if (!processing) {
+    processing = (async () => {
+      let count = 0;
+      for (let delivery = await claimDelivery(db); delivery; delivery = await claimDelivery(db)) {
+        await attemptDelivery(db, delivery);
+        count++;
+      }
+      return count;
+    })()
+      .catch((error: unknown) => {
+        console.error('Error delivering webhooks:', error);
+        return 0;
+      })
+      .finally(() => {
+        processing = null;
+      });
+  }
+  return processing;
+}
+
+let worker: ReturnType<typeof setInterval> | null = null;
+
+// Poll for due retries in this server process
+export function startWebhookWorker(db: Db) {
+  if (worker) return;
+  worker = setInterval(() => void processWebhookDeliveries(db), POLL_INTERVAL_MS);
+  worker.unref();
+}
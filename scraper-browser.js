@@ -4,6 +4,8 @@
 // Configuration
 const API_BASE = 'https://app.usebraintrust.com/api';
 const LOCAL_API_URL = 'http://localhost:3000/api/talent';
+const LOCAL_BULK_API_URL = 'http://localhost:3000/api/talent/bulk';
+const LOCAL_API_KEY = ''; // API key with the write scope, from POST /api/admin/api-keys
 const START_PAGE = 1; // Change this to your starting page
 const END_PAGE = 10; // Change this to your ending page
 const DELAY_MS = 1000; // Delay between requests in milliseconds
@@ -19,6 +21,11 @@ async function makeRequest(url, method = 'GET', data = null) {
       mode: 'cors', // Enable CORS for localhost
     };
 
+    // Only send the API key to the local API, never to Braintrust
+    if (LOCAL_API_KEY && url.startsWith(LOCAL_API_URL)) {
+      options.headers.Authorization = `Bearer ${LOCAL_API_KEY}`;
+    }
+
     if (data) {
       options.body = JSON.stringify(data);
     }
@@ -94,6 +101,22 @@ async function saveTalentToMongoDB(talentData) {
   }
 }
 
+// Save a page of talents to MongoDB in one request via the bulk endpoint
+async function saveTalentsToMongoDB(talents) {
+  try {
+    const response = await makeRequest(LOCAL_BULK_API_URL, 'POST', talents);
+    if (response.status === 200) {
+      return response.data.results;
+    } else {
+      console.error(`Error saving ${talents.length} talents: Status ${response.status}`, response.data);
+      return null;
+    }
+  } catch (error) {
+    console.error(`Error saving ${talents.length} talents:`, error.message);
+    return null;
+  }
+}
+
 // Delay function
 function delay(ms) {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -119,6 +142,7 @@ async function scrapeTalents(startPage, endPage, url) {
     console.log(`Page ${currentPage}: Found ${pageData.results.length} talents`);
 
     // Process each talent
+    const pageTalents = [];
     for (const talent of pageData.results) {
       const talentId = talent.id;
       console.log(`Processing talent ID: ${talentId} (${talent.user?.public_name || 'Unknown'})`);
@@ -128,23 +152,13 @@ async function scrapeTalents(startPage, endPage, url) {
       
       if (talentDetails) {
         // Merge basic info with detailed info
-        const fullTalentData = {
+        pageTalents.push({
           ...talentDetails,
           // Ensure we have the basic info from the list
           search_score: talent.search_score,
           matching_skills_percent: talent.matching_skills_percent,
           personal_rank: talent.personal_rank,
-        };
-
-        // Save to MongoDB
-        const saved = await saveTalentToMongoDB(fullTalentData);
-        if (saved) {
-          totalSaved++;
-          console.log(`✓ Saved talent ${talentId}`);
-        } else {
-          totalErrors++;
-          console.log(`✗ Failed to save talent ${talentId}`);
-        }
+        });
       } else {
         totalErrors++;
         console.log(`✗ Failed to fetch details for talent ${talentId}`);
@@ -154,6 +168,25 @@ async function scrapeTalents(startPage, endPage, url) {
       await delay(DELAY_MS);
     }
 
+    // Save the whole page to MongoDB in one batch
+    if (pageTalents.length > 0) {
+      const results = await saveTalentsToMongoDB(pageTalents);
+      if (results) {
+        for (const result of results) {
+          if (result.status === 'rejected') {
+            totalErrors++;
+            console.log(`✗ Failed to save talent ${result.id}: ${result.reason}`);
+          } else {
+            totalSaved++;
+            console.log(`✓ Saved talent ${result.id} (${result.status})`);
+          }
+        }
+      } else {
+        totalErrors += pageTalents.length;
+        console.log(`✗ Failed to save ${pageTalents.length} talents from page ${currentPage}`);
+      }
+    }
+
     // Check if there's a next page
     if (!pageData.next) {
       console.log(`No more pages available. Stopping at page ${currentPage}.`);
@@ -187,6 +220,7 @@ if (typeof window !== 'undefined') {
   window.fetchTalentsPage = fetchTalentsPage;
   window.fetchTalentDetails = fetchTalentDetails;
   window.saveTalentToMongoDB = saveTalentToMongoDB;
+  window.saveTalentsToMongoDB = saveTalentsToMongoDB;
 
   console.log('Scraper loaded! Use scrapeTalents(startPage, endPage, url) to start scraping.');
   console.log('Example: scrapeTalents(1, 10, "https://app.usebraintrust.com/api/talent/?experience=1-3&role=5&ordering=newest&custom_location=united_states_only")');
@@ -0,0 +1,74 @@
+// TypeScript scraper: fetches talents from Braintrust and saves them through the
+// generated API client, so a change to PUT /api/talent breaks its type-check.
+// Usage: LOCAL_API_KEY=... npm run scrape:ts -- [queryUrl] [startPage] [endPage]
+
+import { ApiError, createApiClient } from './lib/api-client';
+import { delay, fetchDetailsForTalents, fetchTalentsPage, resolveQueryUrl } from './lib/scraper';
+import { talentSchema } from './lib/talent';
+import { formatValidationIssues, toValidationIssues } from './lib/validation';
+
+// Upstream payloads keep their unknown fields; the API stores them under `raw`
+const talentPayloadSchema = talentSchema.loose();
+
+// Configuration
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const LOCAL_API_KEY = process.env.LOCAL_API_KEY || ''; // API key with the write scope, from POST /api/admin/api-keys
+const DEFAULT_QUERY_URL = '/talent/?custom_location=united_states_only';
+const DELAY_MS = Number(process.env.DELAY_MS) || 1000; // Delay between requests in milliseconds
+
+const client = createApiClient({ baseUrl: APP_URL, apiKey: LOCAL_API_KEY });
+
+async function scrapeTalents(queryUrl: URL, startPage: number, endPage: number) {
+  console.log(`Starting scrape of ${queryUrl} from page ${startPage} to ${endPage}...`);
+  const counts = { inserted: 0, updated: 0, unchanged: 0, failed: 0 };
+
+  for (let page = startPage; page <= endPage; page++) {
+    console.log(`\n--- Processing page ${page} ---`);
+    const listPage = await fetchTalentsPage(queryUrl, page);
+    const { talents, failures } = await fetchDetailsForTalents(listPage.results, page, {
+      concurrency: 1,
+      delayMs: DELAY_MS,
+    });
+    failures.forEach(failure => {
+      counts.failed++;
+      console.log(`✗ Failed to fetch details for talent ${failure.talentId}: ${failure.reason}`);
+    });
+
+    for (const talent of talents) {
+      const payload = talentPayloadSchema.safeParse(talent);
+      if (!payload.success) {
+        counts.failed++;
+        console.log(`✗ Failed to save talent ${talent.id}: ${formatValidationIssues(toValidationIssues(payload.error, talent))}`);
+        continue;
+      }
+
+      try {
+        const result = await client.saveTalent(payload.data);
+        counts[result.status]++;
+        console.log(`✓ ${result.message} (ID: ${result.id})`);
+      } catch (error: unknown) {
+        counts.failed++;
+        const reason = error instanceof ApiError && error.body?.errors
+          ? error.body.errors.map(issue => `${issue.field} ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : String(error);
+        console.log(`✗ Failed to save talent ${talent.id}: ${reason}`);
+      }
+    }
+
+    if (!listPage.next) {
+      console.log('Reached the last page');
+      break;
+    }
+    await delay(DELAY_MS);
+  }
+
+  console.log('\n=== Scraping Complete ===');
+  console.log(`Inserted: ${counts.inserted}, updated: ${counts.updated}, unchanged: ${counts.unchanged}, failed: ${counts.failed}`);
+}
+
+const [queryUrl = DEFAULT_QUERY_URL, startPage = '1', endPage = '10'] = process.argv.slice(2);
+
+scrapeTalents(resolveQueryUrl(queryUrl), Number(startPage), Number(endPage)).catch((error: unknown) => {
+  console.error('Scrape failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+// Local HTTP receiver for testing webhooks
+// Usage: WEBHOOK_SECRET=whsec_... node webhook-receiver.mjs
+// Register http://localhost:4000/ as the webhook URL, then ping it or save a talent.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+
+const PORT = Number(process.env.PORT) || 4000;
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || ''; // The secret returned when the webhook was created
+const FAIL_RATE = Number(process.env.FAIL_RATE) || 0; // Share of deliveries answered with 500, to watch retries
+const MAX_AGE_SECONDS = 5 * 60; // Reject signatures older than this
+
+function verifySignature(timestamp, body, header) {
+  const expected = `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+  const received = header || '';
+  return received.length === expected.length && timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    const event = req.headers['x-webhook-event'];
+    const timestamp = req.headers['x-webhook-timestamp'] || '';
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+
+    if (WEBHOOK_SECRET && (!verifySignature(timestamp, body, req.headers['x-webhook-signature']) || !(age <= MAX_AGE_SECONDS))) {
+      console.log(`✗ ${event}: invalid signature`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    if (Math.random() < FAIL_RATE) {
+      console.log(`… ${event}: failing on purpose`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    console.log(`✓ ${event} (delivery ${req.headers['x-webhook-delivery']})${WEBHOOK_SECRET ? '' : ' [signature not checked]'}`);
+    console.log(body);
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}/`);
+  if (!WEBHOOK_SECRET) console.log('WEBHOOK_SECRET is not set; signatures are not verified');
+});